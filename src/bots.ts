@@ -0,0 +1,181 @@
+/**
+ * Cell Eater - Bots
+ *
+ * Bots are pseudo-clients: they get a client record and cells like anyone
+ * else, but their input is written to the record's BotInput each frame by
+ * a behaviour that only reads synced state. Every client runs the same
+ * behaviour on the same frame, so bots stay in sync and survive rollback.
+ */
+
+import * as modu from 'modu-engine';
+import { GameMode } from './types';
+import { ClientInfo, BotInput, Team } from './entities';
+import {
+    WORLD_WIDTH,
+    WORLD_HEIGHT,
+    EAT_RATIO,
+    MAX_CELLS_PER_PLAYER,
+    MIN_SPLIT_RADIUS,
+    BOT_VIEW_RANGE,
+    BOT_FLEE_RANGE,
+    BOT_SPLIT_RANGE,
+    BOT_SPLIT_COOLDOWN_FRAMES,
+    BOT_WANDER_FRAMES,
+} from './constants';
+import {
+    getClientRecords,
+    getPlayerCellsGrouped,
+    isRoundFrozen,
+    burstDirection,
+} from './systems';
+import { connectClient, disconnectClient } from './modes';
+
+const BOT_ID_PREFIX = 'bot-';
+
+interface Target {
+    x: number;
+    y: number;
+    radius: number;
+    distSq: number;
+}
+
+// Nearest entity in `candidates` passing `accept`, ties in eid order
+function findNearest(
+    x: number,
+    y: number,
+    candidates: modu.Entity[],
+    range: number,
+    accept: (radius: number) => boolean
+): Target | null {
+    let best: Target | null = null;
+    for (const entity of candidates) {
+        const radius = entity.get(modu.Sprite).radius;
+        if (!accept(radius)) continue;
+        const t = entity.get(modu.Transform2D);
+        const dx = t.x - x;
+        const dy = t.y - y;
+        const distSq = dx * dx + dy * dy;
+        const reach = range + radius;
+        if (distSq > reach * reach) continue;
+        if (!best || distSq < best.distSq) best = { x: t.x, y: t.y, radius, distSq };
+    }
+    return best;
+}
+
+// Flee bigger cells, chase (and split-kill) smaller ones, otherwise eat
+// the nearest food or wander to a point that changes every few seconds
+function think(game: modu.Game, record: modu.Entity, cells: modu.Entity[], enemies: modu.Entity[], food: modu.Entity[]): void {
+    const frame = game.world.frame;
+    const botId = record.get(ClientInfo).clientId;
+    const bot = record.get(BotInput);
+    bot.split = 0;
+
+    // Steer the largest cell; the others follow the same target
+    let lead = cells[0];
+    for (const cell of cells) {
+        if (cell.get(modu.Sprite).radius > lead.get(modu.Sprite).radius) lead = cell;
+    }
+    const t = lead.get(modu.Transform2D);
+    const r = lead.get(modu.Sprite).radius;
+
+    const threat = findNearest(t.x, t.y, enemies, r + BOT_FLEE_RANGE, radius => radius > r * EAT_RATIO);
+    if (threat) {
+        const dx = t.x - threat.x;
+        const dy = t.y - threat.y;
+        const dist = Math.sqrt(threat.distSq) || 1;
+        bot.targetX = Math.max(0, Math.min(WORLD_WIDTH, t.x + (dx / dist) * BOT_VIEW_RANGE));
+        bot.targetY = Math.max(0, Math.min(WORLD_HEIGHT, t.y + (dy / dist) * BOT_VIEW_RANGE));
+        return;
+    }
+
+    const prey = findNearest(t.x, t.y, enemies, BOT_VIEW_RANGE, radius => r > radius * EAT_RATIO);
+    if (prey) {
+        bot.targetX = prey.x;
+        bot.targetY = prey.y;
+
+        // A split half (area / 2) must still be big enough to eat the prey
+        const gap = Math.sqrt(prey.distSq) - r - prey.radius;
+        const halfRadius = r / Math.SQRT2;
+        if (gap < BOT_SPLIT_RANGE &&
+            halfRadius >= MIN_SPLIT_RADIUS &&
+            halfRadius > prey.radius * EAT_RATIO &&
+            cells.length < MAX_CELLS_PER_PLAYER &&
+            frame - bot.lastSplitFrame >= BOT_SPLIT_COOLDOWN_FRAMES) {
+            bot.split = 1;
+            bot.lastSplitFrame = frame;
+        }
+        return;
+    }
+
+    const meal = findNearest(t.x, t.y, food, BOT_VIEW_RANGE, () => true);
+    if (meal) {
+        bot.targetX = meal.x;
+        bot.targetY = meal.y;
+        return;
+    }
+
+    // Nothing in view - head somewhere new each wander period
+    const dir = burstDirection((botId + Math.floor(frame / BOT_WANDER_FRAMES)) % 16, 16);
+    bot.targetX = Math.max(0, Math.min(WORLD_WIDTH, t.x + dir.x * BOT_VIEW_RANGE));
+    bot.targetY = Math.max(0, Math.min(WORLD_HEIGHT, t.y + dir.y * BOT_VIEW_RANGE));
+}
+
+// Keep `botCount` minus the number of human players in the room. Bots are
+// numbered from 1; the highest-numbered ones leave first as humans join.
+function balanceBots(game: modu.Game, mode: GameMode, botCount: number): void {
+    const records = getClientRecords(game);
+    const bots = records.filter(record => record.get(ClientInfo).bot);
+    const humans = records.filter(record => {
+        const info = record.get(ClientInfo);
+        return !info.bot && !info.spectator;
+    });
+    const wanted = Math.max(0, botCount - humans.length);
+
+    const botIds = new Set(bots.map(record => game.getClientIdString(record.get(ClientInfo).clientId)));
+    for (let n = 1; n <= botCount; n++) {
+        const id = `${BOT_ID_PREFIX}${n}`;
+        if (n <= wanted && !botIds.has(id)) {
+            connectClient(game, mode, id, { nickname: `Bot ${n}` }).get(ClientInfo).bot = 1;
+        } else if (n > wanted && botIds.has(id)) {
+            disconnectClient(game, mode, id);
+        }
+    }
+}
+
+export function setupBots(game: modu.Game, mode: GameMode, botCount: number): void {
+    if (botCount <= 0) return;
+
+    // Bot roster system - adds and removes bots as humans come and go
+    game.addSystem(() => {
+        if (isRoundFrozen(game)) return;
+        balanceBots(game, mode, botCount);
+    }, { phase: 'update' });
+
+    // Bot behaviour system - must run before the systems that read input
+    game.addSystem(() => {
+        if (isRoundFrozen(game)) return;
+        const playerCells = getPlayerCellsGrouped(game);
+        const food = [...game.query('food')]
+            .filter(entity => !entity.destroyed)
+            .sort((a, b) => a.eid - b.eid);
+
+        for (const record of getClientRecords(game)) {
+            const info = record.get(ClientInfo);
+            if (!info.bot) continue;
+            const cells = playerCells.get(info.clientId);
+            if (!cells) continue;
+
+            // Teammates are neither threats nor prey
+            const team = cells[0].get(Team).id;
+            const enemies: modu.Entity[] = [];
+            for (const [clientId, others] of playerCells) {
+                if (clientId === info.clientId) continue;
+                if (team > 0 && others[0].get(Team).id === team) continue;
+                enemies.push(...others);
+            }
+            enemies.sort((a, b) => a.eid - b.eid);
+
+            think(game, record, cells, enemies, food);
+        }
+    }, { phase: 'update' });
+}
@@ -12,16 +12,39 @@ export const MIN_ZOOM = 0.35;
 export const ZOOM_SCALE_FACTOR = 0.004;
 
 // Movement
-export const SPEED = 400;
+export const SPEED = 400;                // Speed of a cell at INITIAL_MASS
 
-// Cell sizing
+// Cell sizing - a cell's Mass is its size; radius = sqrt(mass * MASS_PER_AREA)
 export const INITIAL_RADIUS = 20;
 export const MAX_RADIUS = 200;
+export const MASS_PER_AREA = 100;
+export const INITIAL_MASS = (INITIAL_RADIUS * INITIAL_RADIUS) / MASS_PER_AREA;
+export const MAX_MASS = (MAX_RADIUS * MAX_RADIUS) / MASS_PER_AREA;
 
-// Eating mechanics
+// Speed falloff - [mass, fraction of SPEED] points, linearly interpolated
+// and held flat past either end
+export const SPEED_CURVE: [number, number][] = [
+    [INITIAL_MASS, 1],
+    [25, 0.8],
+    [100, 0.55],
+    [MAX_MASS, 0.35],
+];
+
+// Eating mechanics - eaters gain exactly the mass they swallow
 export const EAT_RATIO = 1.2;
-export const FOOD_GROW = 0.05;
-export const PLAYER_GROW = 0.3;
+export const EAT_DEPTH = 0.4;            // Eater's edge must pass the prey's centre by this fraction of its radius
+export const EAT_GRID_SIZE = 200;        // Bucket size for finding food near a cell
+export const FOOD_MASS = 0.5;
+
+// Passive decay defaults (modes can override them in their rules)
+export const DECAY_THRESHOLD = 100;      // Cells above this mass decay...
+export const DECAY_RATE = 0.005;         // ...by this fraction of their mass per second
+export const DECAY_FOOD_SPREAD = 50;     // Scatter of food dropped by decay, just outside the cell
+
+// Spawning
+export const SPAWN_CANDIDATES = 12;         // Positions tried before settling for the safest
+export const SPAWN_DANGER_DISTANCE = 400;   // Clearance from the edge of a threatening cell
+export const SPAWN_PROTECTION_FRAMES = 180; // 3 seconds of invulnerability after a respawn
 
 // Food spawning
 export const FOOD_COUNT = 800;
@@ -30,16 +53,96 @@ export const FOOD_SPAWN_CHANCE = 0.15;
 
 // Split mechanics
 export const MIN_SPLIT_RADIUS = 15;
-export const SPLIT_IMPULSE = 800;
+export const SPLIT_DISTANCE = 450;       // How far a split launches the new piece beyond its own steering
+export const SPLIT_DECAY = 0.88;         // Launch velocity multiplier per frame
+export const LAUNCH_MIN_SPEED = 5;       // Below this the launch has worn off
 export const MAX_CELLS_PER_PLAYER = 16;
 export const MERGE_DELAY_FRAMES = 300;  // 5 seconds at 60fps;
 export const MERGE_THRESHOLD = 0.5;
 
+// Eject mechanics
+export const MIN_EJECT_RADIUS = 35;
+export const EJECT_RADIUS = 10;
+export const EJECT_MASS = (EJECT_RADIUS * EJECT_RADIUS) / MASS_PER_AREA;
+export const EJECT_SPEED = 900;
+export const EJECT_DECAY = 0.9;          // Velocity multiplier per frame
+export const EJECT_MIN_SPEED = 5;        // Below this a pellet comes to rest
+export const EJECT_COOLDOWN_FRAMES = 6;
+export const EJECT_OWNER_GRACE_FRAMES = 30;  // Owner can't re-absorb for 0.5s
+
+// Viruses
+export const VIRUS_COUNT = 30;
+export const VIRUS_SPAWN_CHANCE = 0.01;
+export const VIRUS_RADIUS = 60;
+export const VIRUS_MASS = (VIRUS_RADIUS * VIRUS_RADIUS) / MASS_PER_AREA;  // Gained by the cell it pops
+export const VIRUS_POP_DISTANCE = 300;  // Launch distance of popped fragments
+export const VIRUS_COLOR = '#33ff33';
+export const VIRUS_FEED_COUNT = 7;       // Ejected pellets needed to launch a copy
+export const VIRUS_LAUNCH_IMPULSE = 1200;
+export const VIRUS_DECAY = 0.92;         // Velocity multiplier per frame
+
 // Physics
 export const REPULSION_FACTOR = 0.3;
 export const REPULSION_BASE = 1;
 export const MOVE_DEADZONE = 5;
 
+// Nicknames
+export const MAX_NICKNAME_LENGTH = 15;
+export const MIN_NAME_FONT_PX = 10;      // Names smaller than this on screen are hidden
+
+// Mothercells (experimental mode)
+export const MOTHERCELL_COUNT = 8;
+export const MOTHERCELL_RADIUS = 150;
+export const MOTHERCELL_MASS = (MOTHERCELL_RADIUS * MOTHERCELL_RADIUS) / MASS_PER_AREA;
+export const MOTHERCELL_DIGEST_PELLETS = 2;  // Pellets of swallowed mass released per frame
+export const MOTHERCELL_FOOD_CHANCE = 0.05;  // Per mothercell per frame
+export const MOTHERCELL_FOOD_SPREAD = 60;    // Scatter around the perimeter point
+export const MOTHERCELL_SEED_SPREAD = 400;   // Initial food cloud around each mothercell
+export const MOTHERCELL_COLOR = '#ce6363';
+
+// Battle royale safe zone
+export const ZONE_START_RADIUS = 4300;   // Covers the whole world
+export const ZONE_MIN_RADIUS = 300;
+export const ZONE_SHRINK_RATIO = 0.6;    // Each stage keeps this fraction of the radius
+export const ZONE_WAIT_FRAMES = 1800;    // 30 seconds before each shrink
+export const ZONE_SHRINK_FRAMES = 1200;  // 20 seconds to reach the next zone
+export const ZONE_DAMAGE_RATE = 0.01;    // Fraction of mass lost per frame outside
+export const ZONE_KILL_RADIUS = 10;      // Cells shrunk below this are destroyed
+
+// Rounds
+export const ROUND_FRAMES = 36000;       // 10 minutes at 60fps (timed mode)
+export const RESULTS_FRAMES = 600;       // Results stay up for 10 seconds
+
+// Teams
+export const TEAM_COUNT = 3;
+export const TEAM_NAMES = ['Red', 'Blue', 'Green'];
+export const TEAM_COLORS = ['#f03e3e', '#1c7ed6', '#37b24d'];
+
+// Leaderboard
+export const LEADERBOARD_SIZE = 10;
+
+// Bots
+export const MAX_BOTS = 20;
+export const BOT_VIEW_RANGE = 800;       // How far a bot looks for food and prey
+export const BOT_FLEE_RANGE = 400;       // Gap to a bigger cell's edge before a bot runs
+export const BOT_SPLIT_RANGE = 350;      // Gap to prey close enough to split-kill
+export const BOT_SPLIT_COOLDOWN_FRAMES = 120;
+export const BOT_WANDER_FRAMES = 180;    // How long a bot heads for one wander point
+
+// Replays
+export const REPLAY_VERSION = 2;
+export const REPLAY_SNAPSHOT_FRAMES = 300;   // Seek points every 5 seconds of playback
+export const REPLAY_BUTTONS = { split: 1, eject: 2, respawn: 4 };
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+// Kill feed
+export const KILL_FEED_FRAMES = 300;     // Events stay in the feed for 5 seconds
+export const KILL_FEED_SIZE = 5;
+
+// Spectator camera
+export const SPECTATOR_PAN_SPEED = 1200;    // Screen pixels per second in free-fly
+export const SPECTATOR_ZOOM_STEP = 1.1;     // Zoom factor per wheel notch
+
 // Color palette
 export const COLORS = [
     '#ff6b6b', '#ff8e72', '#ffa94d', '#ffd43b', '#a9e34b', '#69db7c',
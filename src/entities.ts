@@ -3,18 +3,103 @@
  */
 
 import * as modu from 'modu-engine';
-import { INITIAL_RADIUS } from './constants';
+import { INITIAL_RADIUS, INITIAL_MASS, EJECT_RADIUS, EJECT_MASS, VIRUS_RADIUS, VIRUS_MASS, MOTHERCELL_RADIUS, MOTHERCELL_MASS } from './constants';
+
+// Source of truth for a cell's (or ejected pellet's) size. Sprite and Body2D
+// radii are derived from it with setMass, never written on their own.
+export const Mass = modu.defineComponent('Mass', { value: INITIAL_MASS });
 
 // Custom component for merge cooldown - automatically included in snapshots
 export const MergeCooldown = modu.defineComponent('MergeCooldown', { frame: 0 });
 
+// Mass a cell has lost to decay but not yet dropped as food
+export const DecayDebt = modu.defineComponent('DecayDebt', { mass: 0 });
+
+// Velocity left over from a split launch, added to steering and decayed
+// every frame by the movement system
+export const Launch = modu.defineComponent('Launch', { vx: 0, vy: 0 });
+
+// Earliest frame a cell may eject mass again
+export const EjectCooldown = modu.defineComponent('EjectCooldown', { frame: 0 });
+
+// Frame until which a freshly respawned cell can't be eaten
+export const SpawnProtection = modu.defineComponent('SpawnProtection', { until: 0 });
+
+// Player nickname, interned under the 'nickname' namespace
+export const Nickname = modu.defineComponent('Nickname', { name: 0 });
+
+// Team membership in team modes (0 = no team, teams are numbered from 1).
+// The client record holds the player's team; their cells copy it.
+export const Team = modu.defineComponent('Team', { id: 0 });
+
+// Connected client record - survives the player having no cells.
+// Spectators (spectator = 1) get a record but never a cell; bots
+// (bot = 1) are pseudo-clients driven by BotInput.
+export const ClientInfo = modu.defineComponent('ClientInfo', { clientId: 0, spectator: 0, bot: 0 });
+
+// Input a bot's behaviour produced this frame, read in place of network input
+export const BotInput = modu.defineComponent('BotInput', {
+    targetX: 0, targetY: 0, split: 0, lastSplitFrame: 0
+});
+
+// Per-client statistics for the current round, kept on the client record.
+// cellsLost counts cells eaten by other players; framesAlive adds up every
+// life, peakMass is the heaviest the player has been.
+export const PlayerStats = modu.defineComponent('PlayerStats', {
+    kills: 0, foodEaten: 0, cellsLost: 0, peakMass: 0, framesAlive: 0
+});
+
+// A player eating another player's cell. eater/victim are interned client
+// IDs, mass is what the eater gained. Expires after KILL_FEED_FRAMES.
+export const KillEvent = modu.defineComponent('KillEvent', {
+    eater: 0, victim: 0, mass: 0, frame: 0
+});
+
+// Elimination tracking on the client record. mass follows the player's
+// total mass while alive, so once they die it holds their final mass.
+// killer is an interned client ID (-1 = not eaten by a player), spawns
+// counts how many times the player has come (back) into play.
+export const PlayerLife = modu.defineComponent('PlayerLife', {
+    alive: 0, spawns: 0, killer: -1, mass: 0, deathFrame: 0
+});
+
+// Round singleton. endFrame is 0 for untimed rounds; frozenUntil is set
+// while results show and the world resets when it's reached. winner is an
+// interned client ID (-1 = none), reason is interned under 'round'.
+export const RoundState = modu.defineComponent('RoundState', {
+    number: 1, endFrame: 0, frozenUntil: 0, winner: -1, reason: 0
+});
+
+// Battle royale zone: current circle, the circle it's shrinking towards,
+// and the frames the current shrink starts and ends
+export const SafeZone = modu.defineComponent('SafeZone', {
+    x: 0, y: 0, radius: 0,
+    startX: 0, startY: 0, startRadius: 0,
+    nextX: 0, nextY: 0, nextRadius: 0,
+    shrinkStart: 0, shrinkEnd: 0
+});
+
+// Ejected pellets a virus has absorbed towards its next launch, and their
+// total mass (paid out with the virus's own if it's popped first)
+export const VirusFeed = modu.defineComponent('VirusFeed', { count: 0, mass: 0 });
+
+// Ejected pellet ownership - owner can't re-absorb it until graceFrame
+export const Ejected = modu.defineComponent('Ejected', { owner: 0, graceFrame: 0 });
+
 export function defineEntities(game: modu.Game): void {
     game.defineEntity('cell')
         .with(modu.Transform2D)
         .with(modu.Sprite, { shape: modu.SHAPE_CIRCLE, radius: INITIAL_RADIUS, layer: 1 })
         .with(modu.Body2D, { shapeType: modu.SHAPE_CIRCLE, radius: INITIAL_RADIUS, bodyType: modu.BODY_KINEMATIC })
         .with(modu.Player)
+        .with(Mass)
+        .with(Launch)
+        .with(DecayDebt)
         .with(MergeCooldown)
+        .with(EjectCooldown)
+        .with(SpawnProtection)
+        .with(Nickname)
+        .with(Team)
         .register();
 
     game.defineEntity('food')
@@ -23,6 +108,59 @@ export function defineEntities(game: modu.Game): void {
         .with(modu.Body2D, { shapeType: modu.SHAPE_CIRCLE, radius: 8, bodyType: modu.BODY_STATIC })
         .register();
 
+    // Mass pellet shot by a cell - kinematic so it can travel and slow down
+    game.defineEntity('ejected')
+        .with(modu.Transform2D)
+        .with(modu.Sprite, { shape: modu.SHAPE_CIRCLE, radius: EJECT_RADIUS, layer: 0 })
+        .with(modu.Body2D, { shapeType: modu.SHAPE_CIRCLE, radius: EJECT_RADIUS, bodyType: modu.BODY_KINEMATIC })
+        .with(Mass, { value: EJECT_MASS })
+        .with(Ejected)
+        .register();
+
+    // Spiky hazard - drawn above cells so small cells can hide underneath.
+    // Kinematic so a fed virus can launch a moving copy.
+    game.defineEntity('virus')
+        .with(modu.Transform2D)
+        .with(modu.Sprite, { shape: modu.SHAPE_CIRCLE, radius: VIRUS_RADIUS, layer: 2 })
+        .with(modu.Body2D, { shapeType: modu.SHAPE_CIRCLE, radius: VIRUS_RADIUS, bodyType: modu.BODY_KINEMATIC })
+        .with(Mass, { value: VIRUS_MASS })
+        .with(VirusFeed)
+        .register();
+
+    // Stationary food emitter (experimental mode). Its size never changes;
+    // Mass above MOTHERCELL_MASS is swallowed mass waiting to be emitted.
+    game.defineEntity('mothercell')
+        .with(modu.Transform2D)
+        .with(modu.Sprite, { shape: modu.SHAPE_CIRCLE, radius: MOTHERCELL_RADIUS, layer: 1 })
+        .with(modu.Body2D, { shapeType: modu.SHAPE_CIRCLE, radius: MOTHERCELL_RADIUS, bodyType: modu.BODY_STATIC })
+        .with(Mass, { value: MOTHERCELL_MASS })
+        .register();
+
+    // One per connected client, holds per-player state that outlives cells
+    game.defineEntity('client')
+        .with(ClientInfo)
+        .with(Nickname)
+        .with(Team)
+        .with(PlayerStats)
+        .with(PlayerLife)
+        .with(BotInput)
+        .register();
+
+    // Kill feed event
+    game.defineEntity('kill')
+        .with(KillEvent)
+        .register();
+
+    // Round number, timer and results state
+    game.defineEntity('round')
+        .with(RoundState)
+        .register();
+
+    // Battle royale safe zone singleton
+    game.defineEntity('zone')
+        .with(SafeZone)
+        .register();
+
     // Camera entity - client-only, excluded from snapshots entirely
     game.defineEntity('camera')
         .with(modu.Camera2D, { smoothing: 0.25 })
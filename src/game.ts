@@ -5,16 +5,18 @@
  */
 
 import * as modu from 'modu-engine';
-import { WORLD_WIDTH, WORLD_HEIGHT, FOOD_COUNT } from './constants';
+import { WORLD_WIDTH, WORLD_HEIGHT } from './constants';
 import { defineEntities } from './entities';
-import {
-    setupSystems,
-    setupCollisions,
-    spawnFood,
-    spawnCell,
-    getPlayerCells,
-} from './systems';
+import { setupSystems, setupCollisions, getDeathInfo } from './systems';
+import { getRoomName, getModeForRoom, getBotCountForRoom, setupMode, createRoom, connectClient, disconnectClient } from './modes';
+import { setupBots } from './bots';
+import { setupRounds } from './rounds';
+import { JoinData, GameMode, ReplayFile, ReplayPlayer } from './types';
+import { setupLeaderboard } from './leaderboard';
 import { createRenderer } from './render';
+import { createSpectatorCamera } from './spectator';
+import { showStartScreen, showDeathScreen, hideDeathScreen, showReplayPicker, showReplayControls, downloadFile } from './ui';
+import { setupReplayProbe, createReplayRecorder, createReplayPlayer } from './replay';
 
 // Game state
 let game: modu.Game;
@@ -37,6 +39,10 @@ let mouseY: number;
 export let cameraChaseEnabled = true;
 let prevToggleCameraState = false;
 
+// Death screen state - Play Again holds the respawn input until we're back in
+let respawnRequested = false;
+let deathScreenKey: string | null = null;
+
 function getLocalClientId(): number | null {
     const clientId = game.localClientId;
     if (!clientId || typeof clientId !== 'string') return null;
@@ -69,6 +75,17 @@ function setupInput(getCameraEntity: () => modu.Entity): void {
         bindings: ['key: ']  // Use string binding like toggleCamera
     });
 
+    input.action('eject', {
+        type: 'button',
+        bindings: ['key:w']
+    });
+
+    // Set by the death screen's Play Again button
+    input.action('respawn', {
+        type: 'button',
+        bindings: [() => respawnRequested]
+    });
+
     // Debug: test if space is being tracked
     window.addEventListener('keydown', (e) => {
         if (e.key === ' ') {
@@ -112,30 +129,59 @@ export function initGame(): void {
     // Expose for debugging
     (window as any).game = game;
 
+    setupInput(ensureCameraEntity);
+
+    renderer.render = createRenderer(
+        game,
+        renderer,
+        ensureCameraEntity,  // Pass getter function
+        canvas,
+        minimapCanvas,
+        sizeDisplay,
+        getLocalClientId,
+        createSpectatorCamera(game, canvas, getLocalClientId)
+    );
+
+    // Room (and with it the ruleset and bot count) is chosen with ?mode=teams&bots=4 etc.
+    // ?replay opens a recorded session instead, and takes the room from the file.
+    const params = new URLSearchParams(window.location.search);
+    if (params.has('replay')) {
+        showReplayPicker(playReplay);
+    } else {
+        joinRoom(getRoomName(params.get('mode') || '', parseInt(params.get('bots') || '0', 10) || 0));
+    }
+
+    modu.enableDebugUI(game);
+}
+
+// Helper to ensure camera entity exists (survives snapshot loads)
+function ensureCameraEntity(): modu.Entity {
+    if (!cameraEntity || cameraEntity.destroyed || !cameraEntity.has(modu.Camera2D)) {
+        cameraEntity = game.spawn('camera');
+        const cam = cameraEntity.get(modu.Camera2D);
+        cam.x = WORLD_WIDTH / 2;
+        cam.y = WORLD_HEIGHT / 2;
+        renderer.camera = cameraEntity;
+    }
+    return cameraEntity;
+}
+
+// Install the simulation for a room. The replay probe goes first so
+// recording and playback sample every frame before any system runs.
+function setupSimulation(roomName: string, onFrame: (frame: number) => void): GameMode {
+    const mode = getModeForRoom(roomName);
+
     defineEntities(game);
+    setupReplayProbe(game, onFrame);
+    setupBots(game, mode, getBotCountForRoom(roomName));
     setupCollisions(game, physics);
-    setupSystems(game);
+    setupSystems(game, mode);
+    setupMode(game, physics, mode);
+    setupRounds(game, mode);
+    setupLeaderboard(game, mode);
 
     // Create camera entity and set it on renderer
-    cameraEntity = game.spawn('camera');
-    const cam = cameraEntity.get(modu.Camera2D);
-    cam.x = WORLD_WIDTH / 2;
-    cam.y = WORLD_HEIGHT / 2;
-    renderer.camera = cameraEntity;
-
-    // Helper to ensure camera entity exists (survives snapshot loads)
-    function ensureCameraEntity(): modu.Entity {
-        if (!cameraEntity || cameraEntity.destroyed || !cameraEntity.has(modu.Camera2D)) {
-            cameraEntity = game.spawn('camera');
-            const cam = cameraEntity.get(modu.Camera2D);
-            cam.x = WORLD_WIDTH / 2;
-            cam.y = WORLD_HEIGHT / 2;
-            renderer.camera = cameraEntity;
-        }
-        return cameraEntity;
-    }
-
-    setupInput(ensureCameraEntity);
+    ensureCameraEntity();
 
     // System to detect camera toggle key press (rising edge)
     game.addSystem(() => {
@@ -152,45 +198,110 @@ export function initGame(): void {
         prevToggleCameraState = togglePressed;
     }, { phase: 'update' });
 
-    renderer.render = createRenderer(
-        game,
-        renderer,
-        ensureCameraEntity,  // Pass getter function
-        canvas,
-        minimapCanvas,
-        sizeDisplay,
-        getLocalClientId
-    );
+    // Show the death screen while the local player is eliminated
+    game.addSystem(() => {
+        const localId = getLocalClientId();
+        if (localId === null) return;
+
+        const info = getDeathInfo(game, mode, localId);
+        const key = info ? JSON.stringify(info) : null;
+        if (key === deathScreenKey) return;
+        deathScreenKey = key;
+
+        if (info) {
+            showDeathScreen(info, () => { respawnRequested = true; });
+        } else {
+            hideDeathScreen();
+            respawnRequested = false;
+        }
+    }, { phase: 'update' });
+
+    return mode;
+}
+
+function joinRoom(roomName: string): void {
+    const recorder = createReplayRecorder(game, roomName);
+    const mode = setupSimulation(roomName, frame => recorder.onFrame(frame));
 
-    game.connect('cell-eater-ecs', {
-        onRoomCreate() {
-            console.log('[cell-eater] onRoomCreate');
-            for (let i = 0; i < FOOD_COUNT; i++) spawnFood(game);
-        },
-        onConnect(clientId: string) {
-            console.log('[cell-eater] onConnect:', clientId);
-            spawnCell(game, clientId);
-
-            if (clientId === game.localClientId) {
-                const player = game.getEntityByClientId(clientId);
-                if (player) {
-                    const t = player.get(modu.Transform2D);
-                    const cam = ensureCameraEntity().get(modu.Camera2D);
-                    cam.x = t.x;
-                    cam.y = t.y;
+    // F8 saves everything since we joined as a replay file
+    window.addEventListener('keydown', (e) => {
+        if (e.key !== 'F8') return;
+        const replay = recorder.finish();
+        if (replay) downloadFile(`${roomName}-${game.world.frame}.replay.json`, JSON.stringify(replay));
+    });
+
+    // Join once the player has picked a nickname (or chosen to spectate)
+    showStartScreen((nickname, spectate) => {
+        game.connect(roomName, {
+            onRoomCreate() {
+                console.log('[cell-eater] onRoomCreate:', mode.name);
+                createRoom(game, mode);
+            },
+            onConnect(clientId: string, joinData?: JoinData) {
+                console.log('[cell-eater] onConnect:', clientId);
+                connectClient(game, mode, clientId, joinData);
+                recorder.recordEvent('connect', clientId, joinData);
+
+                if (clientId === game.localClientId) {
+                    // Start recording between ticks, once our join is in the world
+                    requestAnimationFrame(() => recorder.start());
+
+                    const player = game.getEntityByClientId(clientId);
+                    if (player) {
+                        const t = player.get(modu.Transform2D);
+                        const cam = ensureCameraEntity().get(modu.Camera2D);
+                        cam.x = t.x;
+                        cam.y = t.y;
+                    }
                 }
+            },
+            onDisconnect(clientId: string) {
+                console.log('[cell-eater] onDisconnect:', clientId);
+                disconnectClient(game, mode, clientId);
+                recorder.recordEvent('disconnect', clientId);
             }
-        },
-        onDisconnect(clientId: string) {
-            console.log('[cell-eater] onDisconnect:', clientId);
-            const internedId = game.internClientId(clientId);
-            for (const cell of getPlayerCells(game, internedId)) {
-                cell.destroy();
-            }
+        }, { joinData: { nickname, spectate } });
+    });
+}
+
+// Play a replay file offline. There's no connection driving the engine
+// loop, so frames are stepped (at the chosen speed) and rendered here.
+// The spectator camera follows players as usual (Q/E to switch).
+function playReplay(replay: ReplayFile): void {
+    let player: ReplayPlayer | null = null;
+    const mode = setupSimulation(replay.room, () => { player?.onFrame(); });
+    player = createReplayPlayer(game, mode, replay);
+    const replayPlayer = player;
+
+    let paused = false;
+    let speed = 1;
+    let pending = 0;
+    let lastTime = performance.now();
+
+    const controls = showReplayControls(replay.start.frame, replayPlayer.endFrame, {
+        togglePause() { paused = !paused; },
+        setSpeed(value: number) { speed = value; },
+        seek(frame: number) {
+            replayPlayer.seek(frame);
+            pending = 0;
         }
     });
 
-    modu.enableDebugUI(game);
+    function loop(now: number): void {
+        if (!paused) {
+            pending += ((now - lastTime) / 1000) * 60 * speed;
+            while (pending >= 1 && replayPlayer.frame < replayPlayer.endFrame) {
+                replayPlayer.step();
+                pending--;
+            }
+        }
+        lastTime = now;
+
+        renderer.render();
+        controls.update(replayPlayer.frame, paused, replayPlayer.mismatchFrame);
+        requestAnimationFrame(loop);
+    }
+    requestAnimationFrame(loop);
 }
 
 // Auto-init when DOM is ready
@@ -0,0 +1,170 @@
+/**
+ * Cell Eater - Headless Runner
+ *
+ * Builds the real simulation (entities, shared systems and collisions,
+ * mode hooks, rounds, bots) with no DOM, renderer or network, steps it
+ * with scripted joins and inputs, and reports state hashes. Tests and
+ * tools use this to exercise the shipped systems instead of a copy.
+ */
+
+import * as modu from 'modu-engine';
+import { GameMode, HeadlessEvent, HeadlessOptions, HeadlessResult, HeadlessRoom, PlayerInput } from './types';
+import { defineEntities } from './entities';
+import { setupSystems, setupCollisions } from './systems';
+import { setupRounds } from './rounds';
+import { setupLeaderboard } from './leaderboard';
+import { setupBots } from './bots';
+import {
+    getRoomName,
+    getModeForRoom,
+    getBotCountForRoom,
+    setupMode,
+    createRoom,
+    connectClient,
+    disconnectClient,
+} from './modes';
+
+// Seed the engine RNG (same mixing as the engine's internal setSeed)
+export function seedRandom(seed: number): void {
+    seed = seed >>> 0;
+    if (seed === 0) seed = 1;
+
+    let s = seed;
+    s = ((s >>> 16) ^ s) * 0x45d9f3b >>> 0;
+    s = ((s >>> 16) ^ s) * 0x45d9f3b >>> 0;
+    const s0 = ((s >>> 16) ^ s) >>> 0;
+
+    s = (seed * 0x9e3779b9) >>> 0;
+    s = ((s >>> 16) ^ s) * 0x45d9f3b >>> 0;
+    s = ((s >>> 16) ^ s) * 0x45d9f3b >>> 0;
+    const s1 = ((s >>> 16) ^ s) >>> 0;
+
+    modu.loadRandomState(s0 === 0 && s1 === 0 ? { s0: 1, s1: 2 } : { s0, s1 });
+}
+
+// The simulation logs as it goes; tests and tools run it with console.log
+// silenced so their output is only the results
+export function withoutLogs<T>(fn: () => T): T {
+    const log = console.log;
+    console.log = () => {};
+    try {
+        return fn();
+    } finally {
+        console.log = log;
+    }
+}
+
+// Source run through tsx skips build.js, so nothing rewrites Math.random and
+// Math.sqrt. Route them to the deterministic versions for the duration of `fn`.
+export function withDeterministicMath<T>(fn: () => T): T {
+    const { random, sqrt } = Math;
+    Math.random = modu.dRandom;
+    Math.sqrt = modu.dSqrt;
+    try {
+        return fn();
+    } finally {
+        Math.random = random;
+        Math.sqrt = sqrt;
+    }
+}
+
+// A game with only the simulation installed, set up in the same order as
+// game.ts. onFrame runs as the first system, where game.ts puts the replay
+// probe. instrument sees the game before any system is registered (tools
+// use it to wrap addSystem/onCollision).
+export function createHeadlessGame(
+    roomName: string,
+    onFrame?: (frame: number) => void,
+    instrument?: (game: modu.Game, physics: modu.Physics2DSystem) => void
+): { game: modu.Game; mode: GameMode } {
+    const mode = getModeForRoom(roomName);
+
+    const game = modu.createGame();
+    const physics = game.addPlugin(modu.Physics2DSystem, { gravity: { x: 0, y: 0 } });
+    instrument?.(game, physics);
+
+    defineEntities(game);
+    if (onFrame) game.addSystem(() => onFrame(game.world.frame), { phase: 'update' });
+    setupBots(game, mode, getBotCountForRoom(roomName));
+    setupCollisions(game, physics);
+    setupSystems(game, mode);
+    setupMode(game, physics, mode);
+    setupRounds(game, mode);
+    setupLeaderboard(game, mode);
+
+    return { game, mode };
+}
+
+// A freshly created room for `modeName`, seeded with `seed`, with onFrame
+// as its replay probe. Call inside withDeterministicMath.
+export function createHeadlessRoom(
+    modeName: string,
+    seed: number,
+    bots = 0,
+    onFrame?: (frame: number) => void
+): HeadlessRoom {
+    seedRandom(seed);
+    const { game, mode } = createHeadlessGame(getRoomName(modeName, bots), onFrame);
+    createRoom(game, mode);
+    return { game, mode, connected: [], random: modu.saveRandomState() };
+}
+
+// Run one frame of `room` on its own RNG stream. The engine's RNG is global,
+// so rooms stepped side by side swap their streams in and out around it.
+export function stepRoom(
+    room: HeadlessRoom,
+    events: HeadlessEvent[],
+    getInput: (frame: number, clientId: string) => PlayerInput | null
+): void {
+    modu.loadRandomState(room.random);
+    stepFrame(room.game, room.mode, events, getInput, room.connected);
+    room.random = modu.saveRandomState();
+}
+
+// Apply this frame's joins/leaves and inputs, then run one simulation frame.
+// `connected` tracks the human clients and is updated in place.
+export function stepFrame(
+    game: modu.Game,
+    mode: GameMode,
+    events: HeadlessEvent[],
+    getInput: (frame: number, clientId: string) => PlayerInput | null,
+    connected: string[]
+): void {
+    const frame = game.world.frame;
+
+    for (const event of events) {
+        if (event.frame !== frame) continue;
+        if (event.type === 'connect') {
+            connectClient(game, mode, event.clientId, event.joinData);
+            connected.push(event.clientId);
+        } else {
+            disconnectClient(game, mode, event.clientId);
+            const index = connected.indexOf(event.clientId);
+            if (index >= 0) connected.splice(index, 1);
+        }
+    }
+
+    for (const clientId of connected) {
+        const input = getInput(frame, clientId);
+        game.world.setInput(game.internClientId(clientId), input);
+    }
+
+    game.world.tick(frame + 1);
+}
+
+export function runHeadless(options: HeadlessOptions): HeadlessResult {
+    return withDeterministicMath(() => {
+        const room = createHeadlessRoom(options.mode || '', options.seed ?? 1, options.bots || 0);
+        const { game } = room;
+        const getInput = (frame: number, clientId: string) => options.inputs?.(frame, clientId) ?? null;
+        const hashEvery = options.hashEvery ?? 1;
+        const hashes: number[] = [];
+
+        for (let i = 0; i < options.frames; i++) {
+            stepRoom(room, options.events || [], getInput);
+            if (game.world.frame % hashEvery === 0) hashes.push(game.world.getStateHash());
+        }
+
+        return { game, hashes, finalHash: game.world.getStateHash() };
+    });
+}
@@ -0,0 +1,86 @@
+/**
+ * Cell Eater - Leaderboard
+ *
+ * Ranking is derived purely from synced cell state, so every client
+ * computes the same order on the same frame.
+ */
+
+import * as modu from 'modu-engine';
+import { LeaderboardEntry, LeaderboardView, TeamEntry, GameMode } from './types';
+import { Team } from './entities';
+import { LEADERBOARD_SIZE, TEAM_NAMES, TEAM_COLORS } from './constants';
+import {
+    getPlayerCellsGrouped,
+    compareStrings,
+    getMass,
+    getTotalMass,
+    getNickname,
+} from './systems';
+
+// Latest full ranking, recomputed every simulation frame
+let ranking: LeaderboardEntry[] = [];
+let teamTotals: TeamEntry[] = [];
+
+export function computeLeaderboard(game: modu.Game): LeaderboardEntry[] {
+    const entries: LeaderboardEntry[] = [];
+
+    for (const [clientId, cells] of getPlayerCellsGrouped(game)) {
+        entries.push({
+            clientId,
+            name: getNickname(game, cells[0]) || 'An unnamed cell',
+            mass: getTotalMass(cells),
+            rank: 0
+        });
+    }
+
+    // Heaviest first, ties broken by client ID string like the other systems
+    // (nicknames aren't unique, so they can't be the tie-break)
+    entries.sort((a, b) => {
+        const massDiff = b.mass - a.mass;
+        if (massDiff !== 0) return massDiff;
+        return compareStrings(game.getClientIdString(a.clientId) || '', game.getClientIdString(b.clientId) || '');
+    });
+    entries.forEach((entry, i) => entry.rank = i + 1);
+
+    return entries;
+}
+
+// Total mass per team, in team order
+export function computeTeamTotals(game: modu.Game, teamCount: number): TeamEntry[] {
+    const totals: TeamEntry[] = [];
+    for (let team = 1; team <= teamCount; team++) {
+        totals.push({ team, name: TEAM_NAMES[team - 1], color: TEAM_COLORS[team - 1], mass: 0 });
+    }
+
+    for (const [, cells] of getPlayerCellsGrouped(game)) {
+        for (const cell of cells) {
+            const team = cell.get(Team).id;
+            if (team < 1 || team > teamCount) continue;
+            totals[team - 1].mass += getMass(cell);
+        }
+    }
+
+    return totals;
+}
+
+export function setupLeaderboard(game: modu.Game, mode: GameMode): void {
+    const { teamCount } = mode.rules;
+
+    // Registered after the gameplay systems so it sees this frame's result
+    game.addSystem(() => {
+        ranking = computeLeaderboard(game);
+        teamTotals = teamCount > 0 ? computeTeamTotals(game, teamCount) : [];
+    }, { phase: 'update' });
+}
+
+export function getLeaderboard(localClientId: number | null): LeaderboardView {
+    const local = localClientId === null
+        ? null
+        : ranking.find(entry => entry.clientId === localClientId) || null;
+
+    return {
+        top: ranking.slice(0, LEADERBOARD_SIZE),
+        local,
+        teams: teamTotals
+    };
+}
@@ -0,0 +1,148 @@
+/**
+ * Cell Eater - Battle Royale Mode
+ *
+ * A circular safe zone shrinks in stages. Cells outside it lose mass
+ * every frame. When only one player has cells left, the round ends.
+ * Eliminated players can't respawn until the next round.
+ */
+
+import * as modu from 'modu-engine';
+import { GameMode, RoundOutcome } from '../types';
+import { SafeZone, ClientInfo } from '../entities';
+import {
+    WORLD_WIDTH,
+    WORLD_HEIGHT,
+    ZONE_START_RADIUS,
+    ZONE_MIN_RADIUS,
+    ZONE_SHRINK_RATIO,
+    ZONE_WAIT_FRAMES,
+    ZONE_SHRINK_FRAMES,
+    ZONE_DAMAGE_RATE,
+    ZONE_KILL_RADIUS,
+} from '../constants';
+import {
+    getPlayerCellsGrouped,
+    getSortedPlayers,
+    getClientRecords,
+    getNickname,
+    burstDirection,
+    isRoundFrozen,
+    getMass,
+    setMass,
+    massToRadius,
+} from '../systems';
+import { ffaMode } from './ffa';
+
+export function getSafeZone(game: modu.Game): modu.Entity | null {
+    for (const zone of game.query('zone')) {
+        if (!zone.destroyed) return zone;
+    }
+    return null;
+}
+
+// Pick the next circle inside the current one and schedule the shrink
+function scheduleNextZone(game: modu.Game, zone: modu.Entity): void {
+    const z = zone.get(SafeZone);
+    z.startX = z.x;
+    z.startY = z.y;
+    z.startRadius = z.radius;
+    z.nextRadius = Math.max(ZONE_MIN_RADIUS, z.radius * ZONE_SHRINK_RATIO);
+
+    const dir = burstDirection((Math.random() * 32) | 0, 32);
+    const dist = Math.random() * (z.radius - z.nextRadius);
+    z.nextX = Math.max(0, Math.min(WORLD_WIDTH, z.x + dir.x * dist));
+    z.nextY = Math.max(0, Math.min(WORLD_HEIGHT, z.y + dir.y * dist));
+
+    z.shrinkStart = game.world.frame + ZONE_WAIT_FRAMES;
+    z.shrinkEnd = z.shrinkStart + ZONE_SHRINK_FRAMES;
+}
+
+export function spawnSafeZone(game: modu.Game): modu.Entity {
+    const zone = game.spawn('zone');
+    const z = zone.get(SafeZone);
+    z.x = WORLD_WIDTH / 2;
+    z.y = WORLD_HEIGHT / 2;
+    z.radius = ZONE_START_RADIUS;
+    scheduleNextZone(game, zone);
+    return zone;
+}
+
+export const battleRoyaleMode: GameMode = {
+    ...ffaMode,
+    name: 'royale',
+    rules: {
+        ...ffaMode.rules,
+        // Eliminated players sit out until the next round
+        allowRespawn: false,
+        // The shrinking zone already keeps big cells in check
+        decayRate: 0,
+    },
+
+    onRoomCreate(game: modu.Game): void {
+        ffaMode.onRoomCreate(game);
+        spawnSafeZone(game);
+    },
+
+    setupSystems(game: modu.Game): void {
+        // Zone shrink system - interpolates between the stage circles
+        game.addSystem(() => {
+            if (isRoundFrozen(game)) return;
+            const zone = getSafeZone(game);
+            if (!zone) return;
+            const z = zone.get(SafeZone);
+            const frame = game.world.frame;
+
+            if (frame >= z.shrinkEnd) {
+                z.x = z.nextX;
+                z.y = z.nextY;
+                z.radius = z.nextRadius;
+                scheduleNextZone(game, zone);
+            } else if (frame >= z.shrinkStart) {
+                const t = (frame - z.shrinkStart) / (z.shrinkEnd - z.shrinkStart);
+                z.x = z.startX + (z.nextX - z.startX) * t;
+                z.y = z.startY + (z.nextY - z.startY) * t;
+                z.radius = z.startRadius + (z.nextRadius - z.startRadius) * t;
+            }
+        }, { phase: 'update' });
+
+        // Zone damage system - cells whose centre is outside lose mass
+        game.addSystem(() => {
+            if (isRoundFrozen(game)) return;
+            const zone = getSafeZone(game);
+            if (!zone) return;
+            const z = zone.get(SafeZone);
+            const radiusSq = z.radius * z.radius;
+
+            const sortedPlayers = getSortedPlayers(game, getPlayerCellsGrouped(game));
+            for (const [, cells] of sortedPlayers) {
+                for (const cell of cells) {
+                    const t = cell.get(modu.Transform2D);
+                    const dx = t.x - z.x;
+                    const dy = t.y - z.y;
+                    if (dx * dx + dy * dy <= radiusSq) continue;
+
+                    const mass = getMass(cell) * (1 - ZONE_DAMAGE_RATE);
+                    if (massToRadius(mass) < ZONE_KILL_RADIUS) {
+                        cell.destroy();
+                        continue;
+                    }
+                    setMass(cell, mass);
+                }
+            }
+        }, { phase: 'update' });
+    },
+
+    // Last player with cells wins (needs at least two players in the room)
+    checkRoundEnd(game: modu.Game): RoundOutcome | null {
+        const players = getClientRecords(game).filter(record => !record.get(ClientInfo).spectator);
+        if (players.length < 2) return null;
+
+        const alive = getSortedPlayers(game, getPlayerCellsGrouped(game));
+        if (alive.length > 1) return null;
+
+        if (alive.length === 0) return { winner: null, reason: 'No cells left' };
+        const [winner, cells] = alive[0];
+        const name = getNickname(game, cells[0]) || game.getClientIdString(winner) || 'An unnamed cell';
+        return { winner, reason: `${name} is the last cell standing` };
+    },
+};
@@ -0,0 +1,128 @@
+/**
+ * Cell Eater - Experimental Mode
+ *
+ * Large stationary mothercells emit food around their perimeter and eat
+ * small cells that stray inside them (as extra eaters in the shared eat
+ * system), giving the swallowed mass back as food.
+ * Food clusters around them instead of spawning uniformly.
+ */
+
+import * as modu from 'modu-engine';
+import { GameMode } from '../types';
+import {
+    WORLD_WIDTH,
+    WORLD_HEIGHT,
+    FOOD_COUNT,
+    MAX_FOOD,
+    VIRUS_COUNT,
+    MOTHERCELL_COUNT,
+    MOTHERCELL_RADIUS,
+    MOTHERCELL_MASS,
+    MOTHERCELL_DIGEST_PELLETS,
+    MOTHERCELL_FOOD_CHANCE,
+    MOTHERCELL_FOOD_SPREAD,
+    MOTHERCELL_SEED_SPREAD,
+    MOTHERCELL_COLOR,
+    FOOD_MASS,
+    EAT_RATIO,
+} from '../constants';
+import { Mass, PlayerStats } from '../entities';
+import {
+    spawnFood,
+    spawnVirus,
+    burstDirection,
+    coversPrey,
+    getMass,
+    getClientRecord,
+    isRoundFrozen,
+    isSpawnProtected,
+} from '../systems';
+import { ffaMode } from './ffa';
+
+export function spawnMothercell(game: modu.Game): modu.Entity {
+    const color = game.internString('color', MOTHERCELL_COLOR);
+    return game.spawn('mothercell', {
+        x: MOTHERCELL_RADIUS + (Math.random() * (WORLD_WIDTH - MOTHERCELL_RADIUS * 2)) | 0,
+        y: MOTHERCELL_RADIUS + (Math.random() * (WORLD_HEIGHT - MOTHERCELL_RADIUS * 2)) | 0,
+        color
+    });
+}
+
+function getMothercells(game: modu.Game): modu.Entity[] {
+    return [...game.query('mothercell')].sort((a, b) => a.eid - b.eid);
+}
+
+// Drop a pellet just outside a mothercell's perimeter, `slot` of 32 around it
+function emitFood(game: modu.Game, mother: modu.Entity, slot: number): void {
+    const t = mother.get(modu.Transform2D);
+    const r = mother.get(modu.Sprite).radius + MOTHERCELL_FOOD_SPREAD;
+    const dir = burstDirection(slot, 32);
+    spawnFood(game, { x: t.x + dir.x * r, y: t.y + dir.y * r, spread: MOTHERCELL_FOOD_SPREAD });
+}
+
+export const experimentalMode: GameMode = {
+    ...ffaMode,
+    name: 'experimental',
+    rules: {
+        ...ffaMode.rules,
+        foodSpawnChance: 0,
+        // Big cells feed the food cloud as they shrink
+        decayToFood: true,
+    },
+
+    onRoomCreate(game: modu.Game): void {
+        for (let i = 0; i < MOTHERCELL_COUNT; i++) spawnMothercell(game);
+
+        // Initial food cloud shared out between the mothercells
+        const mothers = getMothercells(game);
+        for (let i = 0; i < FOOD_COUNT; i++) {
+            const t = mothers[i % mothers.length].get(modu.Transform2D);
+            spawnFood(game, { x: t.x, y: t.y, spread: MOTHERCELL_SEED_SPREAD });
+        }
+
+        for (let i = 0; i < VIRUS_COUNT; i++) spawnVirus(game);
+    },
+
+    setupSystems(game: modu.Game): void {
+        // Mothercell food emission - pellets appear just outside the perimeter.
+        // Swallowed mass comes back out a few pellets a frame on top of that,
+        // and waits while the map is full of food.
+        game.addSystem(() => {
+            if (isRoundFrozen(game)) return;
+            for (const mother of getMothercells(game)) {
+                const shouldSpawn = Math.random() < MOTHERCELL_FOOD_CHANCE;
+                if (shouldSpawn && game.getEntitiesByType('food').length < MAX_FOOD) {
+                    emitFood(game, mother, (Math.random() * 32) | 0);
+                }
+
+                const mass = mother.get(Mass);
+                for (let i = 0; i < MOTHERCELL_DIGEST_PELLETS; i++) {
+                    if (mass.value - MOTHERCELL_MASS < FOOD_MASS) break;
+                    if (game.getEntitiesByType('food').length >= MAX_FOOD) break;
+                    mass.value -= FOOD_MASS;
+                    emitFood(game, mother, (game.world.frame * MOTHERCELL_DIGEST_PELLETS + i) % 32);
+                }
+            }
+        }, { phase: 'update' });
+    },
+
+    getEaters(game: modu.Game): modu.Entity[] {
+        return getMothercells(game);
+    },
+
+    // A mothercell swallows a cell it covers, under the same size rule as
+    // cells, and stores its mass to give back as food
+    eatCell(game: modu.Game, mother: modu.Entity, prey: modu.Entity): void {
+        if (isSpawnProtected(game, prey)) return;
+        const preyRadius = prey.get(modu.Sprite).radius;
+        if (mother.get(modu.Sprite).radius <= preyRadius * EAT_RATIO) return;
+        const t = prey.get(modu.Transform2D);
+        if (!coversPrey(mother, t.x, t.y, preyRadius)) return;
+
+        mother.get(Mass).value += getMass(prey);
+        prey.destroy();
+
+        const record = getClientRecord(game, prey.get(modu.Player).clientId);
+        if (record) record.get(PlayerStats).cellsLost++;
+    },
+};
@@ -0,0 +1,48 @@
+/**
+ * Cell Eater - Free-for-all Mode
+ *
+ * The default ruleset. Other modes spread this object and override hooks.
+ */
+
+import * as modu from 'modu-engine';
+import { GameMode, JoinData } from '../types';
+import { FOOD_COUNT, FOOD_SPAWN_CHANCE, VIRUS_COUNT, DECAY_THRESHOLD, DECAY_RATE } from '../constants';
+import {
+    spawnFood,
+    spawnVirus,
+    spawnCell,
+    getPlayerCells,
+} from '../systems';
+
+export const ffaMode: GameMode = {
+    name: 'ffa',
+    rules: {
+        teamCount: 0,
+        foodSpawnChance: FOOD_SPAWN_CHANCE,
+        roundFrames: 0,
+        allowRespawn: true,
+        decayThreshold: DECAY_THRESHOLD,
+        decayRate: DECAY_RATE,
+        decayToFood: false,
+    },
+
+    onRoomCreate(game: modu.Game): void {
+        for (let i = 0; i < FOOD_COUNT; i++) spawnFood(game);
+        for (let i = 0; i < VIRUS_COUNT; i++) spawnVirus(game);
+    },
+
+    onConnect(game: modu.Game, clientId: string, joinData?: JoinData): void {
+        spawnCell(game, clientId, { nickname: joinData?.nickname });
+    },
+
+    onDisconnect(game: modu.Game, clientId: string): void {
+        const internedId = game.internClientId(clientId);
+        for (const cell of getPlayerCells(game, internedId)) {
+            cell.destroy();
+        }
+    },
+
+    canEat(game: modu.Game, eater: modu.Entity, prey: modu.Entity): boolean {
+        return eater.get(modu.Player).clientId !== prey.get(modu.Player).clientId;
+    },
+};
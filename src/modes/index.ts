@@ -0,0 +1,80 @@
+/**
+ * Cell Eater - Game Mode Registry
+ *
+ * The mode is encoded in the room name, so every client joining a room
+ * agrees on it.
+ */
+
+import * as modu from 'modu-engine';
+import { GameMode, JoinData } from '../types';
+import { ClientInfo, Nickname } from '../entities';
+import { getClientRecord, sanitizeNickname } from '../systems';
+import { startRounds } from '../rounds';
+import { MAX_BOTS } from '../constants';
+import { ffaMode } from './ffa';
+import { teamsMode } from './teams';
+import { experimentalMode } from './experimental';
+import { battleRoyaleMode } from './battleRoyale';
+import { timedMode } from './timed';
+
+const ROOM_PREFIX = 'cell-eater-ecs';
+
+const MODES: GameMode[] = [ffaMode, teamsMode, experimentalMode, battleRoyaleMode, timedMode];
+
+// Bot count rides along at the end of the room name, e.g. cell-eater-ecs-teams-bots4
+const BOTS_SUFFIX = /-bots(\d+)$/;
+
+export function getRoomName(modeName: string, botCount = 0): string {
+    const base = !modeName || modeName === ffaMode.name ? ROOM_PREFIX : `${ROOM_PREFIX}-${modeName}`;
+    return botCount > 0 ? `${base}-bots${botCount}` : base;
+}
+
+export function getModeForRoom(roomName: string): GameMode {
+    const base = roomName.replace(BOTS_SUFFIX, '');
+    for (const mode of MODES) {
+        if (base === getRoomName(mode.name)) return mode;
+    }
+    return ffaMode;
+}
+
+export function getBotCountForRoom(roomName: string): number {
+    const match = BOTS_SUFFIX.exec(roomName);
+    return match ? Math.min(MAX_BOTS, parseInt(match[1], 10)) : 0;
+}
+
+// Record the client, then let the mode spawn them (unless they only spectate).
+// Returns the client record.
+export function connectClient(game: modu.Game, mode: GameMode, clientId: string, joinData?: JoinData): modu.Entity {
+    // Join data comes from the remote client, so sanitise it inside the simulation
+    const nickname = sanitizeNickname(joinData?.nickname);
+    const spectate = joinData?.spectate === true;
+
+    const record = game.spawn('client');
+    const info = record.get(ClientInfo);
+    info.clientId = game.internClientId(clientId);
+    info.spectator = spectate ? 1 : 0;
+    record.get(Nickname).name = game.internString('nickname', nickname);
+
+    if (!spectate) mode.onConnect(game, clientId, { nickname });
+    return record;
+}
+
+export function disconnectClient(game: modu.Game, mode: GameMode, clientId: string): void {
+    mode.onDisconnect(game, clientId);
+    getClientRecord(game, game.internClientId(clientId))?.destroy();
+}
+
+// Install the mode's own systems and collisions.
+// Call after the shared setupSystems/setupCollisions.
+export function setupMode(game: modu.Game, physics: modu.Physics2DSystem, mode: GameMode): void {
+    mode.setupCollisions?.(game, physics);
+    mode.setupSystems?.(game);
+}
+
+// Seed a new room and start its first round
+export function createRoom(game: modu.Game, mode: GameMode): void {
+    mode.onRoomCreate(game);
+    startRounds(game, mode);
+}
+
+export { ffaMode, teamsMode, experimentalMode, battleRoyaleMode, timedMode };
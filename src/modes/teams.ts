@@ -0,0 +1,56 @@
+/**
+ * Cell Eater - Teams Mode
+ *
+ * Players are auto-balanced onto teams when they join and keep that team
+ * when they respawn. Teammates can't eat each other and cells take their
+ * team's colour.
+ */
+
+import * as modu from 'modu-engine';
+import { GameMode, JoinData } from '../types';
+import { Team } from '../entities';
+import { TEAM_COUNT } from '../constants';
+import { spawnCell, getClientRecord, getClientRecords } from '../systems';
+import { ffaMode } from './ffa';
+
+// Pick the team with the fewest players, counting every client record
+// (eliminated players included); ties go to the lowest team number
+export function pickTeam(game: modu.Game, teamCount: number): number {
+    const counts = new Array(teamCount + 1).fill(0);
+    for (const record of getClientRecords(game)) {
+        const team = record.get(Team).id;
+        if (team > 0 && team <= teamCount) counts[team]++;
+    }
+
+    let best = 1;
+    for (let team = 2; team <= teamCount; team++) {
+        if (counts[team] < counts[best]) best = team;
+    }
+    return best;
+}
+
+export const teamsMode: GameMode = {
+    ...ffaMode,
+    name: 'teams',
+    rules: {
+        ...ffaMode.rules,
+        teamCount: TEAM_COUNT,
+    },
+
+    // Joining players are assigned a team on their client record; respawns
+    // and round resets reuse it
+    onConnect(game: modu.Game, clientId: string, joinData?: JoinData): void {
+        const record = getClientRecord(game, game.internClientId(clientId));
+        let team = record ? record.get(Team).id : 0;
+        if (team === 0) {
+            team = pickTeam(game, TEAM_COUNT);
+            if (record) record.get(Team).id = team;
+        }
+        spawnCell(game, clientId, { nickname: joinData?.nickname, team });
+    },
+
+    canEat(game: modu.Game, eater: modu.Entity, prey: modu.Entity): boolean {
+        if (!ffaMode.canEat(game, eater, prey)) return false;
+        return eater.get(Team).id !== prey.get(Team).id;
+    },
+};
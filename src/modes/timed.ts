@@ -0,0 +1,19 @@
+/**
+ * Cell Eater - Timed Mode
+ *
+ * Free-for-all in fixed-length rounds. The heaviest player when the
+ * timer runs out wins.
+ */
+
+import { GameMode } from '../types';
+import { ROUND_FRAMES } from '../constants';
+import { ffaMode } from './ffa';
+
+export const timedMode: GameMode = {
+    ...ffaMode,
+    name: 'timed',
+    rules: {
+        ...ffaMode.rules,
+        roundFrames: ROUND_FRAMES,
+    },
+};
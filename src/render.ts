@@ -3,7 +3,12 @@
  */
 
 import * as modu from 'modu-engine';
-import { getPlayerCells } from './systems';
+import { getPlayerCells, getNickname, getRoundState, isSpawnProtected, getKillFeed, getMass, getTotalMass, massToRadius } from './systems';
+import { getLeaderboard } from './leaderboard';
+import { getRoundResults } from './rounds';
+import { LeaderboardEntry, SpectatorCamera } from './types';
+import { Nickname, SafeZone, RoundState, SpawnProtection } from './entities';
+import { getSafeZone } from './modes/battleRoyale';
 import { cameraChaseEnabled } from './game';
 import {
     WORLD_WIDTH,
@@ -12,6 +17,8 @@ import {
     MIN_ZOOM,
     ZOOM_SCALE_FACTOR,
     INITIAL_RADIUS,
+    MIN_NAME_FONT_PX,
+    KILL_FEED_FRAMES,
 } from './constants';
 
 export function lightenColor(hex: string, percent: number): string {
@@ -30,6 +37,30 @@ export function darkenColor(hex: string, percent: number): string {
     return `rgb(${r},${g},${b})`;
 }
 
+function drawVirus(ctx: CanvasRenderingContext2D, x: number, y: number, r: number, colorStr: string): void {
+    const spikes = 24;
+    const inner = r * 0.9;
+
+    ctx.fillStyle = colorStr;
+    ctx.beginPath();
+    for (let i = 0; i <= spikes * 2; i++) {
+        const angle = (i / (spikes * 2)) * Math.PI * 2;
+        const len = i % 2 === 0 ? r : inner;
+        const px = x + Math.cos(angle) * len;
+        const py = y + Math.sin(angle) * len;
+        if (i === 0) ctx.moveTo(px, py);
+        else ctx.lineTo(px, py);
+    }
+    ctx.closePath();
+    ctx.globalAlpha = 0.85;
+    ctx.fill();
+    ctx.globalAlpha = 1;
+
+    ctx.strokeStyle = darkenColor(colorStr, 60);
+    ctx.lineWidth = Math.max(2, r * 0.06);
+    ctx.stroke();
+}
+
 export function worldToScreen(
     worldX: number,
     worldY: number,
@@ -45,40 +76,26 @@ export function worldToScreen(
     };
 }
 
-export function updateCamera(
-    game: modu.Game,
-    cameraEntity: modu.Entity,
-    getLocalClientId: () => number | null,
-    alpha: number
-): void {
-    const localId = getLocalClientId();
-    if (localId === null) return;
-
-    const cells = getPlayerCells(game, localId);
-    if (cells.length === 0) return;
-
+// Ease the camera towards the mass-weighted centre of `cells`, zooming out as they grow
+export function followCells(cameraEntity: modu.Entity, cells: modu.Entity[], alpha: number): void {
     const camera = cameraEntity.get(modu.Camera2D);
-
-    let totalSize = 0;
-    let totalArea = 0;
+    let totalMass = 0;
     let centerX = 0;
     let centerY = 0;
 
     for (const cell of cells) {
         // Use interpolated positions to match rendered entities
         cell.interpolate(alpha);
-        const sprite = cell.get(modu.Sprite);
-        const area = sprite.radius * sprite.radius;
+        const mass = getMass(cell);
 
-        centerX += cell.render.interpX * area;
-        centerY += cell.render.interpY * area;
-        totalArea += area;
-        totalSize += sprite.radius;
+        centerX += cell.render.interpX * mass;
+        centerY += cell.render.interpY * mass;
+        totalMass += mass;
     }
 
-    if (totalArea > 0) {
-        centerX /= totalArea;
-        centerY /= totalArea;
+    if (totalMass > 0) {
+        centerX /= totalMass;
+        centerY /= totalMass;
 
         // Only update camera position if chase is enabled
         if (cameraChaseEnabled) {
@@ -86,11 +103,32 @@ export function updateCamera(
             camera.y += (centerY - camera.y) * camera.smoothing;
         }
 
-        camera.targetZoom = Math.max(MIN_ZOOM, BASE_ZOOM - (totalSize - INITIAL_RADIUS) * ZOOM_SCALE_FACTOR);
+        // Zoom by the radius of one cell holding all the mass, so splitting
+        // doesn't change the view
+        camera.targetZoom = Math.max(MIN_ZOOM, BASE_ZOOM - (massToRadius(totalMass) - INITIAL_RADIUS) * ZOOM_SCALE_FACTOR);
         camera.zoom += (camera.targetZoom - camera.zoom) * camera.smoothing;
     }
 }
 
+export function updateCamera(
+    game: modu.Game,
+    cameraEntity: modu.Entity,
+    getLocalClientId: () => number | null,
+    spectator: SpectatorCamera,
+    alpha: number
+): void {
+    const localId = getLocalClientId();
+    const cells = localId === null ? [] : getPlayerCells(game, localId);
+
+    // Not playing (spectator, or dead) - the spectator camera takes over
+    if (cells.length === 0) {
+        spectator.update(cameraEntity, alpha);
+        return;
+    }
+
+    followCells(cameraEntity, cells, alpha);
+}
+
 export function createRenderer(
     game: modu.Game,
     renderer: modu.Simple2DRenderer,
@@ -98,7 +136,8 @@ export function createRenderer(
     canvas: HTMLCanvasElement,
     minimapCanvas: HTMLCanvasElement,
     sizeDisplay: HTMLElement,
-    getLocalClientId: () => number | null
+    getLocalClientId: () => number | null,
+    spectator: SpectatorCamera
 ): () => void {
     const ctx = renderer.context;
     const minimapCtx = minimapCanvas.getContext('2d')!;
@@ -141,6 +180,23 @@ export function createRenderer(
             } catch {}
         }
 
+        const zone = getSafeZone(game);
+        if (zone) {
+            const z = zone.get(SafeZone);
+            minimapCtx.lineWidth = 1;
+            minimapCtx.strokeStyle = '#e03131';
+            minimapCtx.beginPath();
+            minimapCtx.arc(z.x * scaleX, z.y * scaleY, z.radius * scaleX, 0, Math.PI * 2);
+            minimapCtx.stroke();
+
+            minimapCtx.strokeStyle = '#4dabf7';
+            minimapCtx.setLineDash([3, 3]);
+            minimapCtx.beginPath();
+            minimapCtx.arc(z.nextX * scaleX, z.nextY * scaleY, z.nextRadius * scaleX, 0, Math.PI * 2);
+            minimapCtx.stroke();
+            minimapCtx.setLineDash([]);
+        }
+
         const viewLeft = (camera.x - WIDTH / 2 / camera.zoom) * scaleX;
         const viewTop = (camera.y - HEIGHT / 2 / camera.zoom) * scaleY;
         const viewWidth = (WIDTH / camera.zoom) * scaleX;
@@ -168,12 +224,175 @@ export function createRenderer(
         }
     }
 
+    function renderLeaderboard(): void {
+        const localId = getLocalClientId();
+        const { top, local, teams } = getLeaderboard(localId);
+        const localOutsideTop = local !== null && local.rank > top.length;
+
+        const rowHeight = 22;
+        const panelW = 220;
+        const teamsH = teams.length > 0 ? teams.length * rowHeight + 10 : 0;
+        const rows = top.length + (localOutsideTop ? 1 : 0);
+        const panelH = 44 + teamsH + rows * rowHeight;
+        const panelX = WIDTH - panelW - 20;
+        const panelY = 20;
+
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.4)';
+        ctx.fillRect(panelX, panelY, panelW, panelH);
+
+        ctx.fillStyle = '#fff';
+        ctx.font = 'bold 18px Arial, sans-serif';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText('Leaderboard', panelX + panelW / 2, panelY + 20);
+
+        // Team totals above the player ranking
+        teams.forEach((team, i) => {
+            const y = panelY + 44 + i * rowHeight + rowHeight / 2;
+            ctx.font = 'bold 15px Arial, sans-serif';
+            ctx.fillStyle = team.color;
+            ctx.textAlign = 'left';
+            ctx.fillText(team.name, panelX + 12, y);
+            ctx.textAlign = 'right';
+            ctx.fillText(`${Math.floor(team.mass)}`, panelX + panelW - 12, y);
+        });
+
+        function drawRow(entry: LeaderboardEntry, row: number): void {
+            const y = panelY + 44 + teamsH + row * rowHeight + rowHeight / 2;
+            const isLocal = entry.clientId === localId;
+            const name = entry.name.length > 14 ? entry.name.slice(0, 14) + '…' : entry.name;
+
+            ctx.font = `${isLocal ? 'bold ' : ''}15px Arial, sans-serif`;
+            ctx.fillStyle = isLocal ? '#ffd43b' : '#fff';
+            ctx.textAlign = 'left';
+            ctx.fillText(`${entry.rank}. ${name}`, panelX + 12, y);
+            ctx.textAlign = 'right';
+            ctx.fillText(`${Math.floor(entry.mass)}`, panelX + panelW - 12, y);
+        }
+
+        top.forEach((entry, i) => drawRow(entry, i));
+        if (localOutsideTop) drawRow(local!, top.length);
+    }
+
+    // Spectator camera hint, bottom centre while watching
+    function renderSpectatorHud(): void {
+        const status = spectator.getStatus();
+        if (!status) return;
+
+        ctx.font = 'bold 16px Arial, sans-serif';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        const w = ctx.measureText(status).width + 30;
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.4)';
+        ctx.fillRect((WIDTH - w) / 2, HEIGHT - 60, w, 32);
+        ctx.fillStyle = '#fff';
+        ctx.fillText(status, WIDTH / 2, HEIGHT - 44);
+    }
+
+    // Round number and countdown, plus the results panel while frozen
+    function renderRoundHud(): void {
+        const roundEntity = getRoundState(game);
+        if (!roundEntity) return;
+        const round = roundEntity.get(RoundState);
+        const frame = game.world.frame;
+
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillStyle = '#fff';
+        ctx.font = 'bold 20px Arial, sans-serif';
+
+        if (round.endFrame > 0 && round.frozenUntil === 0) {
+            const secondsLeft = Math.max(0, Math.ceil((round.endFrame - frame) / 60));
+            const minutes = Math.floor(secondsLeft / 60);
+            const seconds = `${secondsLeft % 60}`.padStart(2, '0');
+            ctx.fillText(`Round ${round.number} - ${minutes}:${seconds}`, WIDTH / 2, 30);
+        }
+
+        if (round.frozenUntil === 0) return;
+
+        const results = getRoundResults(game).slice(0, 10);
+        const rowHeight = 26;
+        const panelW = 560;
+        const panelH = 130 + results.length * rowHeight;
+        const panelX = (WIDTH - panelW) / 2;
+        const panelY = (HEIGHT - panelH) / 2;
+
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.75)';
+        ctx.fillRect(panelX, panelY, panelW, panelH);
+
+        ctx.fillStyle = '#fff';
+        ctx.textAlign = 'center';
+        ctx.font = 'bold 26px Arial, sans-serif';
+        ctx.fillText(`Round ${round.number} over`, WIDTH / 2, panelY + 30);
+        ctx.font = '16px Arial, sans-serif';
+        ctx.fillText(game.getString('round', round.reason) || '', WIDTH / 2, panelY + 58);
+
+        const nextIn = Math.max(0, Math.ceil((round.frozenUntil - frame) / 60));
+        ctx.fillStyle = '#aaa';
+        ctx.font = '14px Arial, sans-serif';
+        ctx.fillText(`Next round in ${nextIn}s`, WIDTH / 2, panelY + panelH - 18);
+
+        const colName = panelX + 20;
+        const colMass = panelX + panelW - 260;
+        const colPeak = panelX + panelW - 180;
+        const colKills = panelX + panelW - 100;
+        const colTime = panelX + panelW - 20;
+        const headerY = panelY + 90;
+
+        ctx.font = 'bold 14px Arial, sans-serif';
+        ctx.fillStyle = '#aaa';
+        ctx.textAlign = 'left';
+        ctx.fillText('Player', colName, headerY);
+        ctx.textAlign = 'right';
+        ctx.fillText('Mass', colMass, headerY);
+        ctx.fillText('Peak', colPeak, headerY);
+        ctx.fillText('Kills', colKills, headerY);
+        ctx.fillText('Alive', colTime, headerY);
+
+        results.forEach((entry, i) => {
+            const y = headerY + (i + 1) * rowHeight;
+            const isWinner = entry.clientId === round.winner;
+            ctx.font = `${isWinner ? 'bold ' : ''}16px Arial, sans-serif`;
+            ctx.fillStyle = isWinner ? '#ffd43b' : '#fff';
+            ctx.textAlign = 'left';
+            ctx.fillText(`${entry.rank}. ${entry.name}`, colName, y);
+            ctx.textAlign = 'right';
+            ctx.fillText(`${Math.floor(entry.mass)}`, colMass, y);
+            ctx.fillText(`${entry.stats.peakMass}`, colPeak, y);
+            ctx.fillText(`${entry.stats.kills}`, colKills, y);
+            ctx.fillText(`${entry.stats.secondsAlive}s`, colTime, y);
+        });
+    }
+
+    // Newest kills at the top, fading out as they expire
+    function renderKillFeed(): void {
+        const feed = getKillFeed(game);
+        if (feed.length === 0) return;
+
+        ctx.font = '15px Arial, sans-serif';
+        ctx.textAlign = 'left';
+        ctx.textBaseline = 'middle';
+
+        feed.forEach((entry, i) => {
+            const age = game.world.frame - entry.frame;
+            const text = `${entry.eaterName} ate ${entry.victimName} (+${entry.mass})`;
+            const y = 30 + i * 26;
+
+            ctx.globalAlpha = Math.max(0, Math.min(1, (KILL_FEED_FRAMES - age) / 60));
+            ctx.fillStyle = 'rgba(0, 0, 0, 0.4)';
+            ctx.fillRect(20, y - 11, ctx.measureText(text).width + 16, 22);
+            ctx.fillStyle = '#fff';
+            ctx.fillText(text, 28, y);
+        });
+        ctx.globalAlpha = 1;
+    }
+
     return function renderWithCamera(): void {
         const cameraEntity = getCameraEntity();
         const alpha = game.getRenderAlpha();
         const camera = cameraEntity.get(modu.Camera2D);
 
-        updateCamera(game, cameraEntity, getLocalClientId, alpha);
+        updateCamera(game, cameraEntity, getLocalClientId, spectator, alpha);
 
         // Use camera position directly (matches input coordinate conversion)
         const camX = camera.x;
@@ -251,8 +470,11 @@ export function createRenderer(
             if (sprite.shape === modu.SHAPE_CIRCLE) {
                 const r = sprite.radius;
                 const isCell = sprite.layer === 1;
+                const isVirus = sprite.layer === 2;
 
-                if (isCell && r > 10) {
+                if (isVirus) {
+                    drawVirus(ctx, x, y, r, colorStr);
+                } else if (isCell && r > 10) {
                     const gradient = ctx.createRadialGradient(x - r * 0.3, y - r * 0.3, 0, x, y, r);
                     gradient.addColorStop(0, lightenColor(colorStr, 40));
                     gradient.addColorStop(0.7, colorStr);
@@ -271,6 +493,29 @@ export function createRenderer(
                     ctx.beginPath();
                     ctx.arc(x - r * 0.25, y - r * 0.25, r * 0.25, 0, Math.PI * 2);
                     ctx.fill();
+
+                    // Pulsing halo while a respawned cell is protected
+                    if (entity.has(SpawnProtection) && isSpawnProtected(game, entity)) {
+                        ctx.strokeStyle = `rgba(255, 255, 255, ${0.4 + 0.3 * Math.sin(game.world.frame * 0.2)})`;
+                        ctx.lineWidth = Math.max(2, r * 0.1);
+                        ctx.beginPath();
+                        ctx.arc(x, y, r * 1.15, 0, Math.PI * 2);
+                        ctx.stroke();
+                    }
+
+                    // Nickname centred on the cell, hidden once too small to read
+                    const name = entity.has(Nickname) ? getNickname(game, entity) : '';
+                    const fontSize = r * 0.4;
+                    if (name && fontSize * camera.zoom >= MIN_NAME_FONT_PX) {
+                        ctx.font = `bold ${fontSize}px Arial, sans-serif`;
+                        ctx.textAlign = 'center';
+                        ctx.textBaseline = 'middle';
+                        ctx.lineWidth = Math.max(1, fontSize * 0.12);
+                        ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+                        ctx.strokeText(name, x, y);
+                        ctx.fillStyle = '#fff';
+                        ctx.fillText(name, x, y);
+                    }
                 } else {
                     ctx.fillStyle = colorStr;
                     ctx.beginPath();
@@ -280,16 +525,45 @@ export function createRenderer(
             }
         }
 
+        // Battle royale zone: shade outside, solid current edge, dashed next edge
+        const zone = getSafeZone(game);
+        if (zone) {
+            const z = zone.get(SafeZone);
+
+            ctx.fillStyle = 'rgba(224, 49, 49, 0.15)';
+            ctx.beginPath();
+            ctx.rect(0, 0, WORLD_WIDTH, WORLD_HEIGHT);
+            ctx.arc(z.x, z.y, z.radius, 0, Math.PI * 2, true);
+            ctx.fill();
+
+            ctx.strokeStyle = '#e03131';
+            ctx.lineWidth = 6 / camera.zoom;
+            ctx.beginPath();
+            ctx.arc(z.x, z.y, z.radius, 0, Math.PI * 2);
+            ctx.stroke();
+
+            ctx.strokeStyle = '#1c7ed6';
+            ctx.lineWidth = 3 / camera.zoom;
+            ctx.setLineDash([20 / camera.zoom, 15 / camera.zoom]);
+            ctx.beginPath();
+            ctx.arc(z.nextX, z.nextY, z.nextRadius, 0, Math.PI * 2);
+            ctx.stroke();
+            ctx.setLineDash([]);
+        }
+
         ctx.restore();
 
         renderMinimap();
+        renderLeaderboard();
+        renderKillFeed();
+        renderSpectatorHud();
+        renderRoundHud();
 
         // Update size display
         const localId = getLocalClientId();
         if (localId !== null) {
             const cells = getPlayerCells(game, localId);
-            const totalRadius = cells.reduce((sum, c) => sum + c.get(modu.Sprite).radius, 0);
-            sizeDisplay.textContent = `Size: ${Math.floor(totalRadius)}`;
+            sizeDisplay.textContent = cells.length > 0 ? `Mass: ${Math.floor(getTotalMass(cells))}` : '';
         }
     };
 }
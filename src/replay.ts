@@ -0,0 +1,238 @@
+/**
+ * Cell Eater - Replays
+ *
+ * A replay is the engine state at the moment recording started, plus every
+ * join/leave and input change after it and the state hash of each frame.
+ * Playing it through the same systems reproduces the session exactly, in
+ * the browser or headless.
+ *
+ * Recording and playback both sample inputs and hashes from the replay
+ * probe, a system registered before any other, so they see the same point
+ * of every frame. Checkpoints (the start and the seek points) are taken
+ * between frames, the state stepFrame resumes from. Frames are numbered by
+ * the frame a tick starts from, as stepFrame does.
+ */
+
+import * as modu from 'modu-engine';
+import {
+    GameMode,
+    PlayerInput,
+    ReplayCheckpoint,
+    ReplayFile,
+    ReplayInput,
+    ReplayRecorder,
+    ReplayPlayer,
+    HeadlessEvent,
+    JoinData,
+} from './types';
+import { ClientInfo } from './entities';
+import { REPLAY_VERSION, REPLAY_SNAPSHOT_FRAMES, REPLAY_BUTTONS } from './constants';
+import { getClientRecords } from './systems';
+import { createHeadlessGame, stepFrame, withDeterministicMath } from './headless';
+
+// Must be registered before every other system (right after defineEntities)
+export function setupReplayProbe(game: modu.Game, onFrame: (frame: number) => void): void {
+    game.addSystem(() => onFrame(game.world.frame), { phase: 'update' });
+}
+
+export function encodeInput(frame: number, input: PlayerInput | null): ReplayInput {
+    if (!input?.target) return [frame];
+    const buttons = (input.split ? REPLAY_BUTTONS.split : 0)
+        | (input.eject ? REPLAY_BUTTONS.eject : 0)
+        | (input.respawn ? REPLAY_BUTTONS.respawn : 0);
+    return [frame, input.target.x, input.target.y, buttons];
+}
+
+export function decodeInput(entry: ReplayInput): PlayerInput | null {
+    if (entry.length === 1) return null;
+    const [, x, y, buttons] = entry;
+    return {
+        target: { x, y },
+        split: (buttons & REPLAY_BUTTONS.split) !== 0,
+        eject: (buttons & REPLAY_BUTTONS.eject) !== 0,
+        respawn: (buttons & REPLAY_BUTTONS.respawn) !== 0,
+    };
+}
+
+function sameInput(a: ReplayInput, b: ReplayInput): boolean {
+    return a.length === b.length && a.every((value, i) => i === 0 || value === b[i]);
+}
+
+// Input in effect at `frame`: the last change at or before it
+function inputAt(changes: ReplayInput[] | undefined, frame: number): PlayerInput | null {
+    if (!changes) return null;
+    let lo = 0;
+    let hi = changes.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        if (changes[mid][0] <= frame) {
+            found = mid;
+            lo = mid + 1;
+        } else {
+            hi = mid - 1;
+        }
+    }
+    return found >= 0 ? decodeInput(changes[found]) : null;
+}
+
+function saveCheckpoint(game: modu.Game, clients: string[]): ReplayCheckpoint {
+    return {
+        frame: game.world.frame,
+        snapshot: game.world.getSnapshot(),
+        random: modu.saveRandomState(),
+        clients: [...clients]
+    };
+}
+
+function loadCheckpoint(game: modu.Game, checkpoint: ReplayCheckpoint): void {
+    game.world.loadSnapshot(checkpoint.snapshot);
+    modu.loadRandomState(checkpoint.random);
+}
+
+// Records from start() onwards. Rollback re-simulates frames it has already
+// seen, so anything recorded from that frame on is replaced.
+export function createReplayRecorder(game: modu.Game, roomName: string): ReplayRecorder {
+    let start: ReplayCheckpoint | null = null;
+    let probeOffset: number | null = null;
+    let lastFrame = -1;
+    let events: HeadlessEvent[] = [];
+    const inputs: Record<string, ReplayInput[]> = {};
+    const hashes: number[] = [];
+
+    function humanClients(): string[] {
+        const clients: string[] = [];
+        for (const record of getClientRecords(game)) {
+            const info = record.get(ClientInfo);
+            const clientId = game.getClientIdString(info.clientId);
+            if (!info.bot && clientId) clients.push(clientId);
+        }
+        return clients;
+    }
+
+    return {
+        start(): void {
+            if (start) return;
+            start = saveCheckpoint(game, humanClients());
+            lastFrame = start.frame - 1;
+        },
+
+        recordEvent(type: HeadlessEvent['type'], clientId: string, joinData?: JoinData): void {
+            if (!start) return;
+            const frame = game.world.frame;
+            events = events.filter(e => !(e.frame === frame && e.type === type && e.clientId === clientId));
+            events.push(joinData ? { frame, type, clientId, joinData } : { frame, type, clientId });
+        },
+
+        onFrame(probeFrame: number): void {
+            if (!start) return;
+            // The engine may number a running tick by the frame it's heading
+            // to; the first tick after start() tells us by how much
+            if (probeOffset === null) probeOffset = probeFrame - start.frame;
+            const frame = probeFrame - probeOffset;
+            if (frame < start.frame) return;
+
+            if (frame <= lastFrame) {
+                events = events.filter(e => e.frame <= frame);
+                for (const clientId of Object.keys(inputs)) {
+                    inputs[clientId] = inputs[clientId].filter(entry => entry[0] < frame);
+                }
+            }
+            lastFrame = frame;
+
+            for (const clientId of humanClients()) {
+                const entry = encodeInput(frame, game.world.getInput(game.internClientId(clientId)));
+                const changes = inputs[clientId] || (inputs[clientId] = []);
+                const last = changes[changes.length - 1];
+                if (!last || !sameInput(last, entry)) changes.push(entry);
+            }
+
+            hashes.length = frame - start.frame;
+            hashes.push(game.world.getStateHash());
+        },
+
+        finish(): ReplayFile | null {
+            if (!start) return null;
+            return { version: REPLAY_VERSION, room: roomName, start, events, inputs, hashes: [...hashes] };
+        },
+    };
+}
+
+// Plays `replay` into `game`, which must be set up for replay.room with
+// this player's onFrame as its replay probe. Keeps a seek point every
+// REPLAY_SNAPSHOT_FRAMES and notes the first frame whose hash differs.
+export function createReplayPlayer(game: modu.Game, mode: GameMode, replay: ReplayFile): ReplayPlayer {
+    if (replay.version !== REPLAY_VERSION) {
+        throw new Error(`Unsupported replay version ${replay.version} (expected ${REPLAY_VERSION})`);
+    }
+
+    const endFrame = replay.start.frame + replay.hashes.length;
+    const checkpoints: ReplayCheckpoint[] = [replay.start];
+    const getInput = (frame: number, clientId: string) => inputAt(replay.inputs[clientId], frame);
+    let connected = [...replay.start.clients];
+    let mismatchFrame: number | null = null;
+    let tickFrame = replay.start.frame;     // Frame the latest tick started from
+
+    loadCheckpoint(game, replay.start);
+
+    function step(): void {
+        if (game.world.frame >= endFrame) return;
+        tickFrame = game.world.frame;
+        stepFrame(game, mode, replay.events, getInput, connected);
+
+        const frame = game.world.frame;
+        const latest = checkpoints[checkpoints.length - 1];
+        if (frame - latest.frame >= REPLAY_SNAPSHOT_FRAMES) {
+            checkpoints.push(saveCheckpoint(game, connected));
+        }
+    }
+
+    return {
+        get frame() { return game.world.frame; },
+        endFrame,
+        get mismatchFrame() { return mismatchFrame; },
+        step,
+
+        // Restore the nearest seek point at or before `frame`, then play forward
+        seek(frame: number): void {
+            const target = Math.max(replay.start.frame, Math.min(endFrame, frame));
+            if (target < game.world.frame) {
+                let checkpoint = checkpoints[0];
+                for (const candidate of checkpoints) {
+                    if (candidate.frame <= target) checkpoint = candidate;
+                }
+                loadCheckpoint(game, checkpoint);
+                connected = [...checkpoint.clients];
+            }
+            while (game.world.frame < target) step();
+        },
+
+        onFrame(): number {
+            const expected = replay.hashes[tickFrame - replay.start.frame];
+            if (mismatchFrame === null && expected !== undefined && game.world.getStateHash() !== expected) {
+                mismatchFrame = tickFrame;
+            }
+            return tickFrame;
+        },
+    };
+}
+
+// Play a replay headless and check every frame's hash against the recording.
+// onFrame runs in the replay probe with the replay's frame number;
+// instrument is passed through to createHeadlessGame.
+export function verifyReplay(
+    replay: ReplayFile,
+    onFrame?: (game: modu.Game, frame: number) => void,
+    instrument?: (game: modu.Game, physics: modu.Physics2DSystem) => void
+): { frames: number; mismatchFrame: number | null } {
+    return withDeterministicMath(() => {
+        let player: ReplayPlayer | null = null;
+        const { game, mode } = createHeadlessGame(replay.room, () => {
+            if (!player) return;
+            onFrame?.(game, player.onFrame());
+        }, instrument);
+        player = createReplayPlayer(game, mode, replay);
+        player.seek(player.endFrame);
+        return { frames: player.endFrame - replay.start.frame, mismatchFrame: player.mismatchFrame };
+    });
+}
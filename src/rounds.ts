@@ -0,0 +1,130 @@
+/**
+ * Cell Eater - Rounds
+ *
+ * Round timer, end-of-round results and resetting the world. Runs inside
+ * the simulation and keeps its state in the synced 'round' entity, so
+ * every client (including late joiners) agrees on the countdown and
+ * resets on the same frame.
+ */
+
+import * as modu from 'modu-engine';
+import { GameMode, RoundOutcome, RoundResultEntry } from './types';
+import { ClientInfo, Nickname, RoundState } from './entities';
+import { RESULTS_FRAMES } from './constants';
+import { getClientRecords, getClientRecord, getRoundState, getPlayerStatsView, resetPlayerStats } from './systems';
+import { computeLeaderboard } from './leaderboard';
+
+// Everything a round owns; client records survive a reset
+const ROUND_ENTITY_TYPES = ['cell', 'food', 'virus', 'ejected', 'mothercell', 'zone', 'kill'];
+
+// Entities that keep drifting under physics unless stopped during results
+const MOVING_ENTITY_TYPES = ['cell', 'ejected', 'virus'];
+
+// Clear the round's entities, re-seed the room and respawn every player
+// (not spectators) through the mode's onConnect, in client ID order.
+export function resetWorld(game: modu.Game, mode: GameMode): void {
+    for (const type of ROUND_ENTITY_TYPES) {
+        for (const entity of [...game.query(type)]) {
+            if (!entity.destroyed) entity.destroy();
+        }
+    }
+
+    mode.onRoomCreate(game);
+
+    for (const record of getClientRecords(game)) {
+        const info = record.get(ClientInfo);
+        if (info.spectator) continue;
+        const clientIdStr = game.getClientIdString(info.clientId);
+        if (!clientIdStr) continue;
+        const nickname = game.getString('nickname', record.get(Nickname).name) || '';
+        mode.onConnect(game, clientIdStr, { nickname });
+    }
+}
+
+// Create the round singleton when the room is created
+export function startRounds(game: modu.Game, mode: GameMode): void {
+    const round = game.spawn('round').get(RoundState);
+    round.number = 1;
+    round.endFrame = mode.rules.roundFrames > 0 ? game.world.frame + mode.rules.roundFrames : 0;
+}
+
+// Freeze the world and show results until RESULTS_FRAMES have passed
+function endRound(game: modu.Game, mode: GameMode, outcome: RoundOutcome): void {
+    const round = getRoundState(game)!.get(RoundState);
+    round.frozenUntil = game.world.frame + RESULTS_FRAMES;
+    round.winner = outcome.winner ?? -1;
+    round.reason = game.internString('round', outcome.reason);
+
+    console.log(`[cell-eater] Round ${round.number} over (${mode.name}): ${outcome.reason}`);
+    mode.onRoundEnd?.(game, outcome);
+}
+
+// Timed rounds are won by the heaviest player
+function timeUpOutcome(game: modu.Game): RoundOutcome {
+    const [top] = computeLeaderboard(game);
+    if (!top) return { winner: null, reason: 'Time up' };
+    return { winner: top.clientId, reason: `Time up - ${top.name} wins` };
+}
+
+export function setupRounds(game: modu.Game, mode: GameMode): void {
+    // Round system - timer, mode win condition, results and reset
+    game.addSystem(() => {
+        const roundEntity = getRoundState(game);
+        if (!roundEntity) return;
+        const round = roundEntity.get(RoundState);
+        const frame = game.world.frame;
+
+        if (round.frozenUntil > 0) {
+            if (frame < round.frozenUntil) return;
+
+            resetWorld(game, mode);
+            for (const record of getClientRecords(game)) {
+                resetPlayerStats(record);
+            }
+
+            round.number++;
+            round.frozenUntil = 0;
+            round.winner = -1;
+            round.endFrame = mode.rules.roundFrames > 0 ? frame + mode.rules.roundFrames : 0;
+            return;
+        }
+
+        if (round.endFrame > 0 && frame >= round.endFrame) {
+            endRound(game, mode, timeUpOutcome(game));
+            return;
+        }
+
+        const outcome = mode.checkRoundEnd?.(game);
+        if (outcome) endRound(game, mode, outcome);
+    }, { phase: 'update' });
+
+    // Hold everything still while the results are up
+    game.addSystem(() => {
+        const roundEntity = getRoundState(game);
+        if (!roundEntity || roundEntity.get(RoundState).frozenUntil === 0) return;
+
+        for (const type of MOVING_ENTITY_TYPES) {
+            for (const entity of game.query(type)) {
+                if (!entity.destroyed) entity.setVelocity(0, 0);
+            }
+        }
+    }, { phase: 'update' });
+}
+
+// Final standings for the results screen: mass from the frozen cells,
+// stats from the client records
+export function getRoundResults(game: modu.Game): RoundResultEntry[] {
+    const results: RoundResultEntry[] = [];
+    for (const entry of computeLeaderboard(game)) {
+        const record = getClientRecord(game, entry.clientId);
+        if (!record) continue;
+        results.push({
+            clientId: entry.clientId,
+            rank: entry.rank,
+            name: entry.name,
+            mass: entry.mass,
+            stats: getPlayerStatsView(record)
+        });
+    }
+    return results;
+}
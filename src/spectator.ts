@@ -0,0 +1,148 @@
+/**
+ * Cell Eater - Spectator Camera
+ *
+ * Client-only: takes over the camera whenever the local player has no
+ * cells (joined to watch, or dead). Follows the top-ranked players or
+ * flies freely; none of this touches the simulation.
+ */
+
+import * as modu from 'modu-engine';
+import { SpectatorCamera } from './types';
+import { getPlayerCells } from './systems';
+import { getLeaderboard } from './leaderboard';
+import { followCells } from './render';
+import {
+    WORLD_WIDTH,
+    WORLD_HEIGHT,
+    BASE_ZOOM,
+    MIN_ZOOM,
+    SPECTATOR_PAN_SPEED,
+    SPECTATOR_ZOOM_STEP,
+} from './constants';
+
+const PAN_KEYS: Record<string, [number, number]> = {
+    w: [0, -1], arrowup: [0, -1],
+    s: [0, 1], arrowdown: [0, 1],
+    a: [-1, 0], arrowleft: [-1, 0],
+    d: [1, 0], arrowright: [1, 0],
+};
+
+export function createSpectatorCamera(
+    game: modu.Game,
+    canvas: HTMLCanvasElement,
+    getLocalClientId: () => number | null
+): SpectatorCamera {
+    let freeFly = false;
+    let followRank = 0;             // Index into the leaderboard's top players
+    let followName: string | null = null;
+    let lastUpdate = 0;
+    let zoom = BASE_ZOOM;
+    let dragging = false;
+    let dragX = 0;
+    let dragY = 0;
+    let dragDX = 0;
+    let dragDY = 0;
+    const heldKeys = new Set<string>();
+
+    function isActive(): boolean {
+        const localId = getLocalClientId();
+        return localId === null || getPlayerCells(game, localId).length === 0;
+    }
+
+    function cycleTarget(step: number): void {
+        const count = getLeaderboard(null).top.length;
+        if (count === 0) return;
+        followRank = (followRank + step + count) % count;
+    }
+
+    window.addEventListener('keydown', (e) => {
+        if (!isActive() || e.target instanceof HTMLInputElement) return;
+        const key = e.key.toLowerCase();
+
+        if (key === 'f') {
+            freeFly = !freeFly;
+        } else if (!freeFly && (key === 'e' || key === 'arrowright')) {
+            cycleTarget(1);
+        } else if (!freeFly && (key === 'q' || key === 'arrowleft')) {
+            cycleTarget(-1);
+        } else if (freeFly && PAN_KEYS[key]) {
+            heldKeys.add(key);
+        }
+    });
+
+    window.addEventListener('keyup', (e) => heldKeys.delete(e.key.toLowerCase()));
+    window.addEventListener('blur', () => heldKeys.clear());
+
+    // Free-fly: drag to pan, wheel to zoom
+    canvas.addEventListener('mousedown', (e) => {
+        if (!isActive() || !freeFly) return;
+        dragging = true;
+        dragX = e.clientX;
+        dragY = e.clientY;
+    });
+    window.addEventListener('mouseup', () => dragging = false);
+    canvas.addEventListener('mousemove', (e) => {
+        if (!dragging) return;
+        dragDX += e.clientX - dragX;
+        dragDY += e.clientY - dragY;
+        dragX = e.clientX;
+        dragY = e.clientY;
+    });
+    canvas.addEventListener('wheel', (e) => {
+        if (!isActive() || !freeFly) return;
+        e.preventDefault();
+        const factor = e.deltaY > 0 ? 1 / SPECTATOR_ZOOM_STEP : SPECTATOR_ZOOM_STEP;
+        zoom = Math.max(MIN_ZOOM * 0.5, Math.min(BASE_ZOOM * 2, zoom * factor));
+    }, { passive: false });
+
+    function updateFreeFly(cameraEntity: modu.Entity, dt: number): void {
+        const camera = cameraEntity.get(modu.Camera2D);
+        let dx = 0;
+        let dy = 0;
+        for (const key of heldKeys) {
+            dx += PAN_KEYS[key][0];
+            dy += PAN_KEYS[key][1];
+        }
+
+        const speed = SPECTATOR_PAN_SPEED / camera.zoom;
+        camera.x += dx * speed * dt - dragDX / camera.zoom;
+        camera.y += dy * speed * dt - dragDY / camera.zoom;
+        camera.x = Math.max(0, Math.min(WORLD_WIDTH, camera.x));
+        camera.y = Math.max(0, Math.min(WORLD_HEIGHT, camera.y));
+        dragDX = 0;
+        dragDY = 0;
+
+        camera.targetZoom = zoom;
+        camera.zoom += (camera.targetZoom - camera.zoom) * camera.smoothing;
+    }
+
+    return {
+        update(cameraEntity: modu.Entity, alpha: number): void {
+            const now = performance.now();
+            const dt = lastUpdate > 0 ? Math.min((now - lastUpdate) / 1000, 0.1) : 0;
+            lastUpdate = now;
+
+            if (freeFly) {
+                updateFreeFly(cameraEntity, dt);
+                return;
+            }
+
+            // Follow mode - fall back to the leader if our target dropped off
+            const top = getLeaderboard(null).top;
+            if (followRank >= top.length) followRank = 0;
+            const target = top[followRank];
+            followName = target ? target.name : null;
+            if (target) {
+                followCells(cameraEntity, getPlayerCells(game, target.clientId), alpha);
+                zoom = cameraEntity.get(modu.Camera2D).zoom;
+            }
+        },
+
+        getStatus(): string | null {
+            if (!isActive()) return null;
+            if (freeFly) return 'Free camera - WASD/drag to move, wheel to zoom, F to follow players';
+            if (followName === null) return 'Spectating - waiting for players';
+            return `Spectating #${followRank + 1} ${followName} - Q/E to switch, F for free camera`;
+        },
+    };
+}
@@ -3,27 +3,56 @@
  */
 
 import * as modu from 'modu-engine';
-import { SpawnCellOptions } from './types';
-import { MergeCooldown } from './entities';
+import { SpawnCellOptions, SpawnFoodOptions, GameMode, DeathInfo, PlayerStatsView, KillFeedEntry, PlayerInput } from './types';
+import { Mass, Launch, DecayDebt, MergeCooldown, EjectCooldown, SpawnProtection, Ejected, VirusFeed, Nickname, Team, ClientInfo, RoundState, PlayerStats, PlayerLife, KillEvent, BotInput } from './entities';
 import {
     WORLD_WIDTH,
     WORLD_HEIGHT,
     SPEED,
     INITIAL_RADIUS,
-    MAX_RADIUS,
+    INITIAL_MASS,
+    MAX_MASS,
     EAT_RATIO,
-    FOOD_GROW,
-    PLAYER_GROW,
+    EAT_DEPTH,
+    EAT_GRID_SIZE,
+    DECAY_FOOD_SPREAD,
+    SPAWN_CANDIDATES,
+    SPAWN_DANGER_DISTANCE,
+    SPAWN_PROTECTION_FRAMES,
+    FOOD_MASS,
     MAX_FOOD,
-    FOOD_SPAWN_CHANCE,
     MIN_SPLIT_RADIUS,
     MAX_CELLS_PER_PLAYER,
     MERGE_DELAY_FRAMES,
     MERGE_THRESHOLD,
-    SPLIT_IMPULSE,
+    SPLIT_DISTANCE,
+    SPLIT_DECAY,
+    LAUNCH_MIN_SPEED,
+    SPEED_CURVE,
     REPULSION_FACTOR,
     REPULSION_BASE,
     MOVE_DEADZONE,
+    MASS_PER_AREA,
+    MAX_NICKNAME_LENGTH,
+    MIN_EJECT_RADIUS,
+    EJECT_RADIUS,
+    EJECT_MASS,
+    EJECT_SPEED,
+    EJECT_DECAY,
+    EJECT_MIN_SPEED,
+    EJECT_COOLDOWN_FRAMES,
+    EJECT_OWNER_GRACE_FRAMES,
+    VIRUS_COUNT,
+    VIRUS_SPAWN_CHANCE,
+    VIRUS_RADIUS,
+    VIRUS_POP_DISTANCE,
+    VIRUS_COLOR,
+    VIRUS_FEED_COUNT,
+    VIRUS_LAUNCH_IMPULSE,
+    VIRUS_DECAY,
+    TEAM_COLORS,
+    KILL_FEED_FRAMES,
+    KILL_FEED_SIZE,
     COLORS,
 } from './constants';
 
@@ -45,14 +74,14 @@ function getClientIdStr(game: modu.Game, numericId: number): string {
 }
 
 // Helper: Compare strings for deterministic sorting
-function compareStrings(a: string, b: string): number {
+export function compareStrings(a: string, b: string): number {
     if (a < b) return -1;
     if (a > b) return 1;
     return 0;
 }
 
 // Helper: Group cells by player, sorted deterministically
-function getPlayerCellsGrouped(game: modu.Game): Map<number, modu.Entity[]> {
+export function getPlayerCellsGrouped(game: modu.Game): Map<number, modu.Entity[]> {
     const playerCells = new Map<number, modu.Entity[]>();
     const allCells = [...game.query('cell')].sort((a, b) => a.eid - b.eid);
 
@@ -68,12 +97,171 @@ function getPlayerCellsGrouped(game: modu.Game): Map<number, modu.Entity[]> {
 }
 
 // Helper: Get sorted player entries for deterministic iteration
-function getSortedPlayers(game: modu.Game, playerCells: Map<number, modu.Entity[]>): [number, modu.Entity[]][] {
+export function getSortedPlayers(game: modu.Game, playerCells: Map<number, modu.Entity[]>): [number, modu.Entity[]][] {
     return [...playerCells.entries()].sort((a, b) =>
         compareStrings(getClientIdStr(game, a[0]), getClientIdStr(game, b[0]))
     );
 }
 
+// Helper: Mass of a circle, proportional to its area
+export function radiusToMass(radius: number): number {
+    return (radius * radius) / MASS_PER_AREA;
+}
+
+export function massToRadius(mass: number): number {
+    return Math.sqrt(mass * MASS_PER_AREA);
+}
+
+export function getMass(entity: modu.Entity): number {
+    return entity.get(Mass).value;
+}
+
+// Set a cell's mass and resize its sprite and body to match
+export function setMass(entity: modu.Entity, mass: number): void {
+    entity.get(Mass).value = mass;
+    const radius = massToRadius(mass);
+    entity.get(modu.Sprite).radius = radius;
+    entity.get(modu.Body2D).radius = radius;
+}
+
+// Helper: Fraction of SPEED a cell of `mass` moves at, read off SPEED_CURVE
+export function speedMultiplier(mass: number): number {
+    if (mass <= SPEED_CURVE[0][0]) return SPEED_CURVE[0][1];
+    for (let i = 1; i < SPEED_CURVE.length; i++) {
+        const [mass1, factor1] = SPEED_CURVE[i];
+        if (mass > mass1) continue;
+        const [mass0, factor0] = SPEED_CURVE[i - 1];
+        return factor0 + (factor1 - factor0) * (mass - mass0) / (mass1 - mass0);
+    }
+    return SPEED_CURVE[SPEED_CURVE.length - 1][1];
+}
+
+// Helper: Initial launch speed that carries a cell `distance` in total
+// as it decays by SPLIT_DECAY each frame (60 frames per second)
+export function launchSpeed(distance: number): number {
+    return distance * (1 - SPLIT_DECAY) * 60;
+}
+
+// Helper: Total mass of a player's cells
+export function getTotalMass(cells: modu.Entity[]): number {
+    return cells.reduce((sum, cell) => sum + getMass(cell), 0);
+}
+
+// Strip control characters, collapse whitespace and cap the length.
+// Runs on both the client and inside onConnect, so it must stay pure.
+export function sanitizeNickname(raw: unknown): string {
+    if (typeof raw !== 'string') return '';
+    const cleaned = raw
+        .replace(/[\u0000-\u001f\u007f-\u009f\u200b-\u200f\u2028-\u202e]/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+    return Array.from(cleaned).slice(0, MAX_NICKNAME_LENGTH).join('').trim();
+}
+
+export function getNickname(game: modu.Game, cell: modu.Entity): string {
+    return game.getString('nickname', cell.get(Nickname).name) || '';
+}
+
+// Helper: Connected client records, sorted by client ID string
+export function getClientRecords(game: modu.Game): modu.Entity[] {
+    return [...game.query('client')]
+        .filter(record => !record.destroyed)
+        .sort((a, b) => compareStrings(
+            getClientIdStr(game, a.get(ClientInfo).clientId),
+            getClientIdStr(game, b.get(ClientInfo).clientId)
+        ));
+}
+
+export function getClientRecord(game: modu.Game, clientId: number): modu.Entity | null {
+    for (const record of game.query('client')) {
+        if (!record.destroyed && record.get(ClientInfo).clientId === clientId) return record;
+    }
+    return null;
+}
+
+// Helper: This frame's input for a player. Bots read the input their
+// behaviour wrote to the client record; they always want to respawn.
+export function getPlayerInput(game: modu.Game, clientId: number): PlayerInput | null {
+    const record = getClientRecord(game, clientId);
+    if (record && record.get(ClientInfo).bot) {
+        const bot = record.get(BotInput);
+        return { target: { x: bot.targetX, y: bot.targetY }, split: bot.split === 1, respawn: true };
+    }
+    return game.world.getInput(clientId);
+}
+
+// Helper: Round singleton, null before the room is created
+export function getRoundState(game: modu.Game): modu.Entity | null {
+    for (const round of game.query('round')) {
+        if (!round.destroyed) return round;
+    }
+    return null;
+}
+
+// Helper: Gameplay systems and collisions pause while round results show
+export function isRoundFrozen(game: modu.Game): boolean {
+    const round = getRoundState(game);
+    return round !== null && round.get(RoundState).frozenUntil > 0;
+}
+
+// Helper: Display name from the client record, which outlives the player's cells
+export function getClientName(game: modu.Game, clientId: number): string {
+    const record = getClientRecord(game, clientId);
+    return (record && game.getString('nickname', record.get(Nickname).name)) || 'An unnamed cell';
+}
+
+export function getPlayerStatsView(record: modu.Entity): PlayerStatsView {
+    const stats = record.get(PlayerStats);
+    return {
+        kills: stats.kills,
+        foodEaten: stats.foodEaten,
+        cellsLost: stats.cellsLost,
+        peakMass: Math.floor(stats.peakMass),
+        secondsAlive: Math.floor(stats.framesAlive / 60)
+    };
+}
+
+export function resetPlayerStats(record: modu.Entity): void {
+    const stats = record.get(PlayerStats);
+    stats.kills = 0;
+    stats.foodEaten = 0;
+    stats.cellsLost = 0;
+    stats.peakMass = 0;
+    stats.framesAlive = 0;
+}
+
+// Death screen details for an eliminated player, null while they're in play
+export function getDeathInfo(game: modu.Game, mode: GameMode, clientId: number): DeathInfo | null {
+    const record = getClientRecord(game, clientId);
+    if (!record) return null;
+    const life = record.get(PlayerLife);
+    if (life.alive || life.spawns === 0) return null;
+
+    return {
+        killerName: life.killer >= 0 ? getClientName(game, life.killer) : null,
+        finalMass: Math.floor(life.mass),
+        canRespawn: mode.rules.allowRespawn && !isRoundFrozen(game),
+        stats: getPlayerStatsView(record)
+    };
+}
+
+// Most recent kills first, ties in spawn order
+export function getKillFeed(game: modu.Game): KillFeedEntry[] {
+    return [...game.query('kill')]
+        .filter(event => !event.destroyed)
+        .sort((a, b) => b.get(KillEvent).frame - a.get(KillEvent).frame || b.eid - a.eid)
+        .slice(0, KILL_FEED_SIZE)
+        .map(event => {
+            const kill = event.get(KillEvent);
+            return {
+                eaterName: getClientName(game, kill.eater),
+                victimName: getClientName(game, kill.victim),
+                mass: Math.floor(kill.mass),
+                frame: kill.frame
+            };
+        });
+}
+
 export function getPlayerCells(game: modu.Game, clientId: number): modu.Entity[] {
     const cells: modu.Entity[] = [];
     for (const cell of game.query('cell')) {
@@ -84,41 +272,120 @@ export function getPlayerCells(game: modu.Game, clientId: number): modu.Entity[]
     return cells;
 }
 
-export function spawnFood(game: modu.Game): void {
+export function spawnFood(game: modu.Game, options: SpawnFoodOptions = {}): void {
     const colorStr = COLORS[(Math.random() * COLORS.length) | 0];
     const color = game.internString('color', colorStr);
-    game.spawn('food', {
-        x: 50 + (Math.random() * (WORLD_WIDTH - 100)) | 0,
-        y: 50 + (Math.random() * (WORLD_HEIGHT - 100)) | 0,
+
+    let x: number, y: number;
+    if (options.x !== undefined && options.y !== undefined) {
+        // Scatter around the origin, kept inside the 50px margin
+        const spread = options.spread ?? 0;
+        x = options.x + (Math.random() * 2 - 1) * spread;
+        y = options.y + (Math.random() * 2 - 1) * spread;
+        x = Math.max(50, Math.min(WORLD_WIDTH - 50, x)) | 0;
+        y = Math.max(50, Math.min(WORLD_HEIGHT - 50, y)) | 0;
+    } else {
+        x = 50 + (Math.random() * (WORLD_WIDTH - 100)) | 0;
+        y = 50 + (Math.random() * (WORLD_HEIGHT - 100)) | 0;
+    }
+
+    game.spawn('food', { x, y, color });
+}
+
+export function spawnVirus(game: modu.Game, x?: number, y?: number): modu.Entity {
+    const color = game.internString('color', VIRUS_COLOR);
+    return game.spawn('virus', {
+        x: x ?? (VIRUS_RADIUS + (Math.random() * (WORLD_WIDTH - VIRUS_RADIUS * 2)) | 0),
+        y: y ?? (VIRUS_RADIUS + (Math.random() * (WORLD_HEIGHT - VIRUS_RADIUS * 2)) | 0),
         color
     });
 }
 
+// Helper: Respawned cells can't be eaten until their protection runs out
+export function isSpawnProtected(game: modu.Game, cell: modu.Entity): boolean {
+    return game.world.frame < cell.get(SpawnProtection).until;
+}
+
+// Hash-derived spawn candidate (different bits for x and y)
+function spawnCandidate(hash: number): { x: number; y: number } {
+    return {
+        x: 100 + ((hash >>> 0) % (WORLD_WIDTH - 200)),
+        y: 100 + ((hash >>> 16 ^ hash) % (WORLD_HEIGHT - 200))
+    };
+}
+
+// Try hash-derived candidates and take the first that is clear of every enemy
+// cell big enough to eat a fresh spawn. On a crowded map, fall back to the
+// candidate with the most clearance.
+function pickSpawnPoint(game: modu.Game, clientId: string, seed: string, team: number): { x: number; y: number } {
+    const internedId = game.internClientId(clientId);
+    const threats: { x: number; y: number; radius: number }[] = [];
+    for (const cell of [...game.query('cell')].sort((a, b) => a.eid - b.eid)) {
+        if (cell.destroyed || cell.get(modu.Player).clientId === internedId) continue;
+        if (team > 0 && cell.get(Team).id === team) continue;
+        const radius = cell.get(modu.Sprite).radius;
+        if (radius <= INITIAL_RADIUS * EAT_RATIO) continue;
+        const t = cell.get(modu.Transform2D);
+        threats.push({ x: t.x, y: t.y, radius });
+    }
+
+    let best = spawnCandidate(hashString(seed));
+    if (threats.length === 0) return best;
+
+    let bestClearance = -Infinity;
+    for (let i = 0; i < SPAWN_CANDIDATES; i++) {
+        const candidate = spawnCandidate(hashString(i === 0 ? seed : `${seed}/${i}`));
+
+        // Clearance: distance past the danger zone of the nearest threat
+        let clearance = Infinity;
+        for (const threat of threats) {
+            const dx = candidate.x - threat.x;
+            const dy = candidate.y - threat.y;
+            const gap = Math.sqrt(dx * dx + dy * dy) - threat.radius - SPAWN_DANGER_DISTANCE;
+            if (gap < clearance) clearance = gap;
+        }
+
+        if (clearance >= 0) return candidate;
+        if (clearance > bestClearance) {
+            bestClearance = clearance;
+            best = candidate;
+        }
+    }
+
+    return best;
+}
+
 export function spawnCell(game: modu.Game, clientId: string, options: SpawnCellOptions = {}): modu.Entity {
-    // Use hash-based positioning for determinism (random in callbacks desyncs RNG)
-    const hash = hashString(clientId);
-    const colorStr = options.color || COLORS[hash % COLORS.length];
+    // Use hash-based positioning for determinism (random in callbacks desyncs RNG).
+    // Respawns mix in the spawn count so they don't land on the same spot.
+    const record = getClientRecord(game, game.internClientId(clientId));
+    const spawns = record ? record.get(PlayerLife).spawns : 0;
+    const seed = spawns > 0 ? `${clientId}#${spawns}` : clientId;
+    const hash = hashString(seed);
+    const team = options.team || 0;
+    const colorStr = options.color || (team > 0 ? TEAM_COLORS[team - 1] : COLORS[hash % COLORS.length]);
     const color = game.internString('color', colorStr);
-    const radius = options.radius || INITIAL_RADIUS;
 
-    // Derive spawn position from hash (different bits for x and y)
-    const spawnX = options.x ?? (100 + ((hash >>> 0) % (WORLD_WIDTH - 200)));
-    const spawnY = options.y ?? (100 + ((hash >>> 16 ^ hash) % (WORLD_HEIGHT - 200)));
+    // Split-offs pass a position; fresh spawns pick a safe one
+    const placed = options.x !== undefined && options.y !== undefined;
+    const spawnPoint = placed ? { x: options.x!, y: options.y! } : pickSpawnPoint(game, clientId, seed, team);
 
     const entity = game.spawn('cell', {
-        x: spawnX,
-        y: spawnY,
+        x: spawnPoint.x,
+        y: spawnPoint.y,
         clientId,
         color
     });
 
-    if (options.radius) {
-        const sprite = entity.get(modu.Sprite);
-        const body = entity.get(modu.Body2D);
-        sprite.radius = radius;
-        body.radius = radius;
+    entity.get(Nickname).name = game.internString('nickname', options.nickname ?? '');
+    entity.get(Team).id = team;
+
+    if (!placed && spawns > 0) {
+        entity.get(SpawnProtection).until = game.world.frame + SPAWN_PROTECTION_FRAMES;
     }
 
+    setMass(entity, options.mass ?? INITIAL_MASS);
+
     if (options.vx !== undefined || options.vy !== undefined) {
         const body = entity.get(modu.Body2D);
         body.vx = options.vx || 0;
@@ -128,9 +395,274 @@ export function spawnCell(game: modu.Game, clientId: string, options: SpawnCellO
     return entity;
 }
 
-export function setupSystems(game: modu.Game): void {
+// Move `mass` off `cell` into a new sibling launched `distance` along
+// (nx, ny). Both cells get the same merge cooldown. Returns null, leaving
+// `cell` untouched, if the owner can't be resolved.
+function splitOffCell(game: modu.Game, cell: modu.Entity, mass: number, nx: number, ny: number, distance: number): modu.Entity | null {
+    const clientIdStr = game.getClientIdString(cell.get(modu.Player).clientId);
+    if (!clientIdStr) return null;
+    setMass(cell, getMass(cell) - mass);
+
+    const t = cell.get(modu.Transform2D);
+    const s = cell.get(modu.Sprite);
+
+    // Spawn new cell
+    const newCell = spawnCell(game, clientIdStr, {
+        x: t.x,
+        y: t.y,
+        mass,
+        color: game.getString('color', s.color),
+        nickname: getNickname(game, cell),
+        team: cell.get(Team).id
+    });
+
+    // Launch along the split direction; the movement system decays it
+    const launch = newCell.get(Launch);
+    launch.vx = nx * launchSpeed(distance);
+    launch.vy = ny * launchSpeed(distance);
+
+    // Pieces of a protected cell stay protected
+    newCell.get(SpawnProtection).until = cell.get(SpawnProtection).until;
+
+    // Track merge timing
+    const mergeFrame = game.world.frame + MERGE_DELAY_FRAMES;
+    cell.get(MergeCooldown).frame = mergeFrame;
+    newCell.get(MergeCooldown).frame = mergeFrame;
+
+    return newCell;
+}
+
+// Halve `cell` and launch the new piece towards `target` (straight along
+// the cell's movement if there's none, or a fixed direction at rest)
+function splitCell(game: modu.Game, cell: modu.Entity, target?: { x: number; y: number }): modu.Entity | null {
+    const t = cell.get(modu.Transform2D);
+    const body = cell.get(modu.Body2D);
+
+    let dx = 1, dy = 0;
+    if (target) {
+        dx = target.x - t.x;
+        dy = target.y - t.y;
+    } else if (body.vx !== 0 || body.vy !== 0) {
+        dx = body.vx;
+        dy = body.vy;
+    }
+    const len = Math.sqrt(dx * dx + dy * dy) || 1;
+
+    return splitOffCell(game, cell, getMass(cell) / 2, dx / len, dy / len, SPLIT_DISTANCE);
+}
+
+// Bring a player's cells back under MAX_MASS without losing any mass.
+// Oversized cells split in half (towards the player's cursor) while the
+// player has free cell slots; after that the excess tops up their
+// smallest cells. Mass only stays above the cap once every cell is full.
+function resolveOverflow(game: modu.Game, clientId: number): void {
+    const cells = getPlayerCells(game, clientId).sort((a, b) => a.eid - b.eid);
+    const oversized = cells.filter(cell => getMass(cell) > MAX_MASS);
+    if (oversized.length === 0) return;
+    const target = getPlayerInput(game, clientId)?.target;
+
+    while (oversized.length > 0) {
+        const cell = oversized.shift()!;
+        if (getMass(cell) <= MAX_MASS) continue;
+
+        if (cells.length < MAX_CELLS_PER_PLAYER) {
+            const piece = splitCell(game, cell, target);
+            if (!piece) continue;
+            cells.push(piece);
+            oversized.push(cell, piece);
+            continue;
+        }
+
+        let excess = getMass(cell) - MAX_MASS;
+        setMass(cell, MAX_MASS);
+        const smallest = [...cells].sort((a, b) => getMass(a) - getMass(b) || a.eid - b.eid);
+        for (const other of smallest) {
+            if (excess <= 0) break;
+            const room = MAX_MASS - getMass(other);
+            if (room <= 0) continue;
+            const share = Math.min(room, excess);
+            setMass(other, getMass(other) + share);
+            excess -= share;
+        }
+        if (excess > 0) setMass(cell, MAX_MASS + excess);
+    }
+}
+
+// Slow a free-flying entity down and keep it inside the world
+function applyDrag(entity: modu.Entity, decay: number): void {
+    const body = entity.get(modu.Body2D);
+    const transform = entity.get(modu.Transform2D);
+    const r = entity.get(modu.Sprite).radius;
+
+    let vx = body.vx * decay;
+    let vy = body.vy * decay;
+    if (vx * vx + vy * vy < EJECT_MIN_SPEED * EJECT_MIN_SPEED) {
+        vx = 0;
+        vy = 0;
+    }
+    entity.setVelocity(vx, vy);
+
+    // Clamp to world bounds
+    transform.x = Math.max(r, Math.min(WORLD_WIDTH - r, transform.x));
+    transform.y = Math.max(r, Math.min(WORLD_HEIGHT - r, transform.y));
+}
+
+// Unit vector i of n spread evenly around a circle. Walks the perimeter of a
+// square and normalises, so no trig is needed and the result is deterministic.
+export function burstDirection(i: number, n: number): { x: number; y: number } {
+    const t = (i * 8) / n;
+    let x: number, y: number;
+    if (t < 2) {
+        x = 1; y = t - 1;
+    } else if (t < 4) {
+        x = 3 - t; y = 1;
+    } else if (t < 6) {
+        x = -1; y = 5 - t;
+    } else {
+        x = t - 7; y = -1;
+    }
+    const len = Math.sqrt(x * x + y * y);
+    return { x: x / len, y: y / len };
+}
+
+// Explode a cell (plus the mass it just swallowed) into equal fragments,
+// limited by free cell slots
+function popCell(game: modu.Game, cell: modu.Entity, extraMass: number): void {
+    const mass = getMass(cell) + extraMass;
+    const siblings = getPlayerCells(game, cell.get(modu.Player).clientId).length;
+    const pieces = Math.min(
+        MAX_CELLS_PER_PLAYER - siblings + 1,
+        Math.floor(mass / radiusToMass(MIN_SPLIT_RADIUS))
+    );
+
+    const pieceMass = mass / Math.max(1, pieces);
+    setMass(cell, mass);
+
+    for (let i = 0; i < pieces - 1; i++) {
+        const dir = burstDirection(i, pieces - 1);
+        splitOffCell(game, cell, pieceMass, dir.x, dir.y, VIRUS_POP_DISTANCE);
+    }
+
+    // Virus pops happen in a collision callback, after this frame's overflow system
+    resolveOverflow(game, cell.get(modu.Player).clientId);
+}
+
+function spawnEjected(game: modu.Game, x: number, y: number, vx: number, vy: number, owner: number, color: number): modu.Entity {
+    const pellet = game.spawn('ejected', {
+        x: Math.max(EJECT_RADIUS, Math.min(WORLD_WIDTH - EJECT_RADIUS, x)),
+        y: Math.max(EJECT_RADIUS, Math.min(WORLD_HEIGHT - EJECT_RADIUS, y)),
+        color
+    });
+
+    const ejected = pellet.get(Ejected);
+    ejected.owner = owner;
+    ejected.graceFrame = game.world.frame + EJECT_OWNER_GRACE_FRAMES;
+
+    pellet.setVelocity(vx, vy);
+    return pellet;
+}
+
+// Kill feed event for a player-on-player eat
+function recordKill(game: modu.Game, eater: number, victim: number, mass: number): void {
+    const kill = game.spawn('kill').get(KillEvent);
+    kill.eater = eater;
+    kill.victim = victim;
+    kill.mass = mass;
+    kill.frame = game.world.frame;
+}
+
+// Helper: Does `eater` cover a prey of `preyRadius` centred at (x, y)? Its
+// edge has to reach EAT_DEPTH of the prey's radius past the prey's centre,
+// so touching isn't enough.
+export function coversPrey(eater: modu.Entity, x: number, y: number, preyRadius: number): boolean {
+    const reach = eater.get(modu.Sprite).radius - preyRadius * EAT_DEPTH;
+    if (reach <= 0) return false;
+    const t = eater.get(modu.Transform2D);
+    const dx = x - t.x;
+    const dy = y - t.y;
+    return dx * dx + dy * dy <= reach * reach;
+}
+
+// Bucket entities by position so an eater only checks the prey around it
+function buildEatGrid(entities: Iterable<modu.Entity>): Map<number, modu.Entity[]> {
+    const grid = new Map<number, modu.Entity[]>();
+    const sorted = [...entities].filter(entity => !entity.destroyed).sort((a, b) => a.eid - b.eid);
+    for (const entity of sorted) {
+        const t = entity.get(modu.Transform2D);
+        const key = Math.floor(t.x / EAT_GRID_SIZE) * 1000 + Math.floor(t.y / EAT_GRID_SIZE);
+        const bucket = grid.get(key);
+        if (bucket) bucket.push(entity);
+        else grid.set(key, [entity]);
+    }
+    return grid;
+}
+
+// Entities from the buckets `cell` overlaps, in eid order
+function nearbyEntities(grid: Map<number, modu.Entity[]>, cell: modu.Entity): modu.Entity[] {
+    const t = cell.get(modu.Transform2D);
+    const r = cell.get(modu.Sprite).radius;
+    const found: modu.Entity[] = [];
+    for (let gx = Math.floor((t.x - r) / EAT_GRID_SIZE); gx <= Math.floor((t.x + r) / EAT_GRID_SIZE); gx++) {
+        for (let gy = Math.floor((t.y - r) / EAT_GRID_SIZE); gy <= Math.floor((t.y + r) / EAT_GRID_SIZE); gy++) {
+            const bucket = grid.get(gx * 1000 + gy);
+            if (bucket) found.push(...bucket);
+        }
+    }
+    return found.sort((a, b) => a.eid - b.eid);
+}
+
+function eatFood(game: modu.Game, cell: modu.Entity, food: modu.Entity): void {
+    setMass(cell, getMass(cell) + FOOD_MASS);
+    food.destroy();
+
+    const record = getClientRecord(game, cell.get(modu.Player).clientId);
+    if (record) record.get(PlayerStats).foodEaten++;
+}
+
+// Ejected mass goes back to any cell, but its owner only after the grace period
+function absorbPellet(game: modu.Game, cell: modu.Entity, pellet: modu.Entity): void {
+    const ejected = pellet.get(Ejected);
+    if (ejected.owner === cell.get(modu.Player).clientId && game.world.frame < ejected.graceFrame) return;
+
+    setMass(cell, getMass(cell) + getMass(pellet));
+    pellet.destroy();
+}
+
+// Player cell eats another player's cell - the mode decides which pairs may
+// interact, and the eater has to be big enough and cover the prey
+function tryEatCell(game: modu.Game, mode: GameMode, eater: modu.Entity, prey: modu.Entity): void {
+    const preyRadius = prey.get(modu.Sprite).radius;
+    if (eater.get(modu.Sprite).radius <= preyRadius * EAT_RATIO) return;
+    const t = prey.get(modu.Transform2D);
+    if (!coversPrey(eater, t.x, t.y, preyRadius)) return;
+    if (!mode.canEat(game, eater, prey) || isSpawnProtected(game, prey)) return;
+
+    const massBefore = getMass(eater);
+    setMass(eater, massBefore + getMass(prey));
+    prey.destroy();
+
+    const eaterId = eater.get(modu.Player).clientId;
+    const preyId = prey.get(modu.Player).clientId;
+    recordKill(game, eaterId, preyId, getMass(eater) - massBefore);
+
+    const eaterRecord = getClientRecord(game, eaterId);
+    if (eaterRecord) eaterRecord.get(PlayerStats).kills++;
+
+    const preyRecord = getClientRecord(game, preyId);
+    if (preyRecord) {
+        preyRecord.get(PlayerStats).cellsLost++;
+
+        // Last cell gone - remember who finished the player off
+        if (getPlayerCells(game, preyId).length === 0) {
+            preyRecord.get(PlayerLife).killer = eaterId;
+        }
+    }
+}
+
+export function setupSystems(game: modu.Game, mode: GameMode): void {
     // Movement system with integrated repulsion
     game.addSystem(() => {
+        if (isRoundFrozen(game)) return;
         const playerCells = getPlayerCellsGrouped(game);
         const sortedPlayers = getSortedPlayers(game, playerCells);
 
@@ -180,7 +712,7 @@ export function setupSystems(game: modu.Game): void {
 
         // Apply movement based on input
         for (const [clientId, cells] of sortedPlayers) {
-            const playerInput = game.world.getInput(clientId);
+            const playerInput = getPlayerInput(game, clientId);
 
             // Debug: log every 60 frames
             if (game.world.frame % 60 === 0 && cells.length > 0) {
@@ -204,12 +736,26 @@ export function setupSystems(game: modu.Game): void {
                         const dist = Math.sqrt(dx * dx + dy * dy);
 
                         if (dist > MOVE_DEADZONE) {
-                            vx = (dx / dist) * SPEED;
-                            vy = (dy / dist) * SPEED;
+                            const speed = SPEED * speedMultiplier(getMass(cell));
+                            vx = (dx / dist) * speed;
+                            vy = (dy / dist) * speed;
                         }
                     }
                 }
 
+                // Blend in what's left of a split launch, then decay it
+                const launch = cell.get(Launch);
+                if (launch.vx !== 0 || launch.vy !== 0) {
+                    vx += launch.vx;
+                    vy += launch.vy;
+                    launch.vx *= SPLIT_DECAY;
+                    launch.vy *= SPLIT_DECAY;
+                    if (launch.vx * launch.vx + launch.vy * launch.vy < LAUNCH_MIN_SPEED * LAUNCH_MIN_SPEED) {
+                        launch.vx = 0;
+                        launch.vy = 0;
+                    }
+                }
+
                 // Add repulsion from sibling cells
                 const rep = repulsion.get(cell.eid);
                 if (rep) {
@@ -229,19 +775,30 @@ export function setupSystems(game: modu.Game): void {
 
     // Food spawning system
     game.addSystem(() => {
-        const shouldSpawn = Math.random() < FOOD_SPAWN_CHANCE;
+        if (isRoundFrozen(game)) return;
+        const shouldSpawn = Math.random() < mode.rules.foodSpawnChance;
         if (shouldSpawn && game.getEntitiesByType('food').length < MAX_FOOD) {
             spawnFood(game);
         }
     }, { phase: 'update' });
 
+    // Virus population system
+    game.addSystem(() => {
+        if (isRoundFrozen(game)) return;
+        const shouldSpawn = Math.random() < VIRUS_SPAWN_CHANCE;
+        if (shouldSpawn && game.getEntitiesByType('virus').length < VIRUS_COUNT) {
+            spawnVirus(game);
+        }
+    }, { phase: 'update' });
+
     // Split system
     game.addSystem(() => {
+        if (isRoundFrozen(game)) return;
         const playerCells = getPlayerCellsGrouped(game);
         const sortedPlayers = getSortedPlayers(game, playerCells);
 
         for (const [clientId, cells] of sortedPlayers) {
-            const playerInput = game.world.getInput(clientId);
+            const playerInput = getPlayerInput(game, clientId);
 
             // Debug: log when split is true
             if (playerInput?.split) {
@@ -261,46 +818,110 @@ export function setupSystems(game: modu.Game): void {
             console.log(`[SPLIT] Cells eligible for split: ${cellsToSplit.length} of ${cells.length} (minRadius=${MIN_SPLIT_RADIUS})`);
 
             for (const cell of cellsToSplit) {
-                const t = cell.get(modu.Transform2D);
+                splitCell(game, cell, playerInput.target);
+            }
+        }
+    }, { phase: 'update' });
+
+    // Eject system
+    game.addSystem(() => {
+        if (isRoundFrozen(game)) return;
+        const currentFrame = game.world.frame;
+        const playerCells = getPlayerCellsGrouped(game);
+        const sortedPlayers = getSortedPlayers(game, playerCells);
+
+        for (const [clientId, cells] of sortedPlayers) {
+            const playerInput = getPlayerInput(game, clientId);
+            if (!playerInput?.eject || !playerInput?.target) continue;
+
+            for (const cell of cells) {
                 const s = cell.get(modu.Sprite);
-                const b = cell.get(modu.Body2D);
-
-                // Direction to cursor
-                const dx = playerInput.target.x - t.x;
-                const dy = playerInput.target.y - t.y;
-                const len = Math.sqrt(dx * dx + dy * dy) || 1;
-
-                // Halve radius (area split in half)
-                const r = s.radius / Math.SQRT2;
-                s.radius = r;
-                b.radius = r;
-
-                const clientIdStr = game.getClientIdString(clientId);
-                if (!clientIdStr) continue;
-
-                // Spawn new cell
-                const newCell = spawnCell(game, clientIdStr, {
-                    x: t.x,
-                    y: t.y,
-                    radius: r,
-                    color: game.getString('color', s.color)
-                });
-
-                // Apply impulse towards cursor
-                const newBody = newCell.get(modu.Body2D);
-                newBody.impulseX = (dx / len) * SPLIT_IMPULSE;
-                newBody.impulseY = (dy / len) * SPLIT_IMPULSE;
-
-                // Track merge timing
-                const mergeFrame = game.world.frame + MERGE_DELAY_FRAMES;
-                cell.get(MergeCooldown).frame = mergeFrame;
-                newCell.get(MergeCooldown).frame = mergeFrame;
+                if (s.radius < MIN_EJECT_RADIUS) continue;
+
+                const cooldown = cell.get(EjectCooldown);
+                if (currentFrame < cooldown.frame) continue;
+
+                const t = cell.get(modu.Transform2D);
+
+                // Direction to cursor (straight ahead if cursor is on the cell centre)
+                let dx = playerInput.target.x - t.x;
+                let dy = playerInput.target.y - t.y;
+                const len = Math.sqrt(dx * dx + dy * dy);
+                if (len > 0) {
+                    dx /= len;
+                    dy /= len;
+                } else {
+                    dx = 1;
+                    dy = 0;
+                }
+
+                // Shrink by exactly the mass the pellet carries
+                setMass(cell, getMass(cell) - EJECT_MASS);
+                cooldown.frame = currentFrame + EJECT_COOLDOWN_FRAMES;
+
+                // Launch from just outside the cell edge
+                const offset = s.radius + EJECT_RADIUS;
+                spawnEjected(
+                    game,
+                    t.x + dx * offset,
+                    t.y + dy * offset,
+                    dx * EJECT_SPEED,
+                    dy * EJECT_SPEED,
+                    clientId,
+                    s.color
+                );
+            }
+        }
+    }, { phase: 'update' });
+
+    // Mass decay system - cells above the mode's threshold shrink towards
+    // it. With decayToFood the lost mass drops behind them as food.
+    game.addSystem(() => {
+        if (isRoundFrozen(game)) return;
+        const { decayThreshold, decayRate, decayToFood } = mode.rules;
+        if (decayRate <= 0) return;
+        const perFrame = decayRate / 60;
+        const cells = [...game.query('cell')].filter(cell => !cell.destroyed).sort((a, b) => a.eid - b.eid);
+
+        for (const cell of cells) {
+            const mass = getMass(cell);
+            if (mass <= decayThreshold) continue;
+            const decayed = Math.max(decayThreshold, mass * (1 - perFrame));
+            setMass(cell, decayed);
+            if (!decayToFood) continue;
+
+            // Pay off the debt in whole pellets, each just outside the edge.
+            // Once the map is full of food the rest is lost.
+            const debt = cell.get(DecayDebt);
+            debt.mass += mass - decayed;
+            while (debt.mass >= FOOD_MASS && game.getEntitiesByType('food').length < MAX_FOOD) {
+                debt.mass -= FOOD_MASS;
+                const t = cell.get(modu.Transform2D);
+                const dir = burstDirection((game.world.frame + cell.eid) % 16, 16);
+                const r = cell.get(modu.Sprite).radius + DECAY_FOOD_SPREAD;
+                spawnFood(game, { x: t.x + dir.x * r, y: t.y + dir.y * r, spread: DECAY_FOOD_SPREAD });
             }
+            debt.mass = Math.min(debt.mass, FOOD_MASS);
+        }
+    }, { phase: 'update' });
+
+    // Projectile velocity decay (ejected pellets and launched viruses)
+    game.addSystem(() => {
+        if (isRoundFrozen(game)) return;
+        const pellets = [...game.query('ejected')].sort((a, b) => a.eid - b.eid);
+        for (const pellet of pellets) {
+            if (!pellet.destroyed) applyDrag(pellet, EJECT_DECAY);
+        }
+
+        const viruses = [...game.query('virus')].sort((a, b) => a.eid - b.eid);
+        for (const virus of viruses) {
+            if (!virus.destroyed) applyDrag(virus, VIRUS_DECAY);
         }
     }, { phase: 'update' });
 
     // Merge system
     game.addSystem(() => {
+        if (isRoundFrozen(game)) return;
         const currentFrame = game.world.frame;
         const playerCells = getPlayerCellsGrouped(game);
         const sortedPlayers = getSortedPlayers(game, playerCells);
@@ -330,6 +951,10 @@ export function setupSystems(game: modu.Game): void {
                     const mergeFrameB = cellB.get(MergeCooldown).frame;
                     if (currentFrame < mergeFrameA || currentFrame < mergeFrameB) continue;
 
+                    // A merge past the cap would just split again and fling
+                    // the piece forward, so those cells stay apart
+                    if (getMass(cellA) + getMass(cellB) > MAX_MASS) continue;
+
                     const tB = cellB.get(modu.Transform2D);
                     const sB = cellB.get(modu.Sprite);
 
@@ -342,13 +967,8 @@ export function setupSystems(game: modu.Game): void {
                         console.log('MERGE: cellA.eid=', cellA.eid, 'clientId=', cellA.get(modu.Player).clientId);
                         console.log('MERGE: cellB.eid=', cellB.eid, 'clientId=', cellB.get(modu.Player).clientId);
 
-                        // Merge: combine areas
-                        const areaA = sA.radius * sA.radius;
-                        const areaB = sB.radius * sB.radius;
-                        const newRadius = Math.min(Math.sqrt(areaA + areaB), MAX_RADIUS);
-
-                        sA.radius = newRadius;
-                        cellA.get(modu.Body2D).radius = newRadius;
+                        // Merge: combine masses
+                        setMass(cellA, getMass(cellA) + getMass(cellB));
                         cellB.destroy();
 
                         console.log('AFTER MERGE: cellA.clientId=', cellA.get(modu.Player).clientId);
@@ -357,29 +977,157 @@ export function setupSystems(game: modu.Game): void {
             }
         }
     }, { phase: 'update' });
+
+    // Eat system - every cell swallows the cells, food and ejected mass it
+    // covers, and the mode's own eaters (mothercells) get to eat cells too.
+    // Heaviest eaters go first and each takes its prey in eid order, so the result never
+    // depends on the order the engine reports contacts. Prey comes from the
+    // grid buckets an eater overlaps when its turn starts.
+    game.addSystem(() => {
+        if (isRoundFrozen(game)) return;
+        const cells = [...game.query('cell')].filter(cell => !cell.destroyed);
+        const eaters = [...cells, ...(mode.getEaters?.(game) ?? [])].sort((a, b) => getMass(b) - getMass(a) || a.eid - b.eid);
+        const prey = buildEatGrid(cells);
+        const food = buildEatGrid(game.query('food'));
+        const pellets = buildEatGrid(game.query('ejected'));
+
+        for (const eater of eaters) {
+            if (eater.destroyed) continue;
+
+            // Not a player cell, so one of the mode's eaters
+            if (!eater.has(modu.Player)) {
+                for (const cell of nearbyEntities(prey, eater)) {
+                    if (!cell.destroyed) mode.eatCell?.(game, eater, cell);
+                }
+                continue;
+            }
+
+            for (const cell of nearbyEntities(prey, eater)) {
+                if (cell !== eater && !cell.destroyed) tryEatCell(game, mode, eater, cell);
+            }
+
+            for (const pellet of nearbyEntities(food, eater)) {
+                const t = pellet.get(modu.Transform2D);
+                if (!pellet.destroyed && coversPrey(eater, t.x, t.y, pellet.get(modu.Sprite).radius)) {
+                    eatFood(game, eater, pellet);
+                }
+            }
+
+            for (const pellet of nearbyEntities(pellets, eater)) {
+                const t = pellet.get(modu.Transform2D);
+                if (!pellet.destroyed && coversPrey(eater, t.x, t.y, pellet.get(modu.Sprite).radius)) {
+                    absorbPellet(game, eater, pellet);
+                }
+            }
+        }
+    }, { phase: 'update' });
+
+    // Overflow system - cells that grew past MAX_MASS this frame (eating,
+    // merging) auto-split or hand the excess to their siblings
+    game.addSystem(() => {
+        if (isRoundFrozen(game)) return;
+        for (const [clientId] of getSortedPlayers(game, getPlayerCellsGrouped(game))) {
+            resolveOverflow(game, clientId);
+        }
+    }, { phase: 'update' });
+
+    // Kill feed expiry system
+    game.addSystem(() => {
+        for (const event of [...game.query('kill')]) {
+            if (!event.destroyed && game.world.frame - event.get(KillEvent).frame >= KILL_FEED_FRAMES) {
+                event.destroy();
+            }
+        }
+    }, { phase: 'update' });
+
+    // Respawn system - eliminated players come back through the respawn input
+    game.addSystem(() => {
+        if (isRoundFrozen(game) || !mode.rules.allowRespawn) return;
+
+        for (const record of getClientRecords(game)) {
+            const life = record.get(PlayerLife);
+            if (life.alive || life.spawns === 0) continue;
+
+            const clientId = record.get(ClientInfo).clientId;
+            if (!getPlayerInput(game, clientId)?.respawn) continue;
+            if (getPlayerCells(game, clientId).length > 0) continue;
+
+            const clientIdStr = getClientIdStr(game, clientId);
+            if (!clientIdStr) continue;
+            const nickname = game.getString('nickname', record.get(Nickname).name) || '';
+            mode.onConnect(game, clientIdStr, { nickname });
+        }
+    }, { phase: 'update' });
+
+    // Life system - notices eliminations and (re)spawns, tracks mass and time alive
+    game.addSystem(() => {
+        const frozen = isRoundFrozen(game);
+        const playerCells = getPlayerCellsGrouped(game);
+
+        for (const record of getClientRecords(game)) {
+            const life = record.get(PlayerLife);
+            const cells = playerCells.get(record.get(ClientInfo).clientId);
+
+            if (cells) {
+                if (!life.alive) {
+                    life.alive = 1;
+                    life.spawns++;
+                    life.killer = -1;
+                }
+                life.mass = getTotalMass(cells);
+
+                const stats = record.get(PlayerStats);
+                if (life.mass > stats.peakMass) stats.peakMass = life.mass;
+                if (!frozen) stats.framesAlive++;
+            } else if (life.alive) {
+                life.alive = 0;
+                life.deathFrame = game.world.frame;
+            }
+        }
+    }, { phase: 'update' });
 }
 
 export function setupCollisions(game: modu.Game, physics: modu.Physics2DSystem): void {
-    // Cell eats food
-    physics.onCollision('cell', 'food', (cell, food) => {
-        if (food.destroyed) return;
-        const sprite = cell.get(modu.Sprite);
-        const foodSprite = food.get(modu.Sprite);
-        sprite.radius = Math.min(sprite.radius + foodSprite.radius * FOOD_GROW, MAX_RADIUS);
-        cell.get(modu.Body2D).radius = sprite.radius;
-        food.destroy();
+    // Large cell swallows a virus and bursts into fragments
+    physics.onCollision('cell', 'virus', (cell, virus) => {
+        if (isRoundFrozen(game) || virus.destroyed) return;
+        const virusRadius = virus.get(modu.Sprite).radius;
+        if (cell.get(modu.Sprite).radius <= virusRadius * EAT_RATIO) return;
+
+        const virusMass = getMass(virus) + virus.get(VirusFeed).mass;
+        virus.destroy();
+        popCell(game, cell, virusMass);
     });
 
-    // Cell eats smaller cell (different players only)
-    physics.onCollision('cell', 'cell', (cellA, cellB) => {
-        if (cellA.get(modu.Player).clientId === cellB.get(modu.Player).clientId) return;
-
-        const eaterSprite = cellA.get(modu.Sprite);
-        const preySprite = cellB.get(modu.Sprite);
-        if (eaterSprite.radius > preySprite.radius * EAT_RATIO) {
-            eaterSprite.radius = Math.min(eaterSprite.radius + preySprite.radius * PLAYER_GROW, MAX_RADIUS);
-            cellA.get(modu.Body2D).radius = eaterSprite.radius;
-            cellB.destroy();
+    // Virus swallows ejected mass; once fed enough it launches a full-size
+    // copy along the direction the last pellet was travelling. The pellets
+    // become part of the copy and, like the virus spawner, the world
+    // supplies the rest of its VIRUS_MASS.
+    physics.onCollision('virus', 'ejected', (virus, pellet) => {
+        if (isRoundFrozen(game) || virus.destroyed || pellet.destroyed) return;
+        const pelletBody = pellet.get(modu.Body2D);
+        const pt = pellet.get(modu.Transform2D);
+        const feed = virus.get(VirusFeed);
+        feed.mass += getMass(pellet);
+        pellet.destroy();
+
+        feed.count++;
+        if (feed.count < VIRUS_FEED_COUNT) return;
+        feed.count = 0;
+        feed.mass = 0;
+
+        const vt = virus.get(modu.Transform2D);
+        let dx = pelletBody.vx;
+        let dy = pelletBody.vy;
+        if (dx === 0 && dy === 0) {
+            dx = vt.x - pt.x;
+            dy = vt.y - pt.y;
         }
+        const len = Math.sqrt(dx * dx + dy * dy) || 1;
+
+        const launched = spawnVirus(game, vt.x, vt.y);
+        const body = launched.get(modu.Body2D);
+        body.impulseX = (dx / len) * VIRUS_LAUNCH_IMPULSE;
+        body.impulseY = (dy / len) * VIRUS_LAUNCH_IMPULSE;
     });
 }
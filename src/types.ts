@@ -2,11 +2,226 @@
  * Cell Eater - Type Definitions
  */
 
+import * as modu from 'modu-engine';
+
 export interface SpawnCellOptions {
     x?: number;
     y?: number;
-    radius?: number;
+    mass?: number;
     color?: string;
     vx?: number;
     vy?: number;
+    nickname?: string;
+    team?: number;
+}
+
+// Food placement: uniform over the world unless an origin is given
+export interface SpawnFoodOptions {
+    x?: number;
+    y?: number;
+    spread?: number;
+}
+
+// Tunables the shared systems read from the active mode
+export interface GameRules {
+    teamCount: number;          // 0 = free-for-all
+    foodSpawnChance: number;    // Uniform food spawn chance per frame
+    roundFrames: number;        // Round length, 0 = untimed
+    allowRespawn: boolean;      // Eliminated players may rejoin mid-round
+    decayThreshold: number;     // Cells heavier than this lose mass over time
+    decayRate: number;          // Fraction of mass lost per second, 0 = no decay
+    decayToFood: boolean;       // Drop the lost mass around the cell as food
+}
+
+// How a round ended, reported by a mode's round condition
+export interface RoundOutcome {
+    winner: number | null;      // Interned client ID, null for no winner
+    reason: string;
+}
+
+/**
+ * A ruleset a room runs. The mode is picked from the room name, so every
+ * client in a room installs the same hooks. Hooks run inside the
+ * simulation and must be deterministic.
+ */
+export interface GameMode {
+    name: string;
+    rules: GameRules;
+
+    // Room lifecycle (same callbacks game.connect receives). onConnect also
+    // respawns every client when a round resets and eliminated players who
+    // press Play Again; joinData is already sanitised.
+    onRoomCreate(game: modu.Game): void;
+    onConnect(game: modu.Game, clientId: string, joinData?: JoinData): void;
+    onDisconnect(game: modu.Game, clientId: string): void;
+
+    // Extra per-frame systems and collision handlers for this mode
+    setupSystems?(game: modu.Game): void;
+    setupCollisions?(game: modu.Game, physics: modu.Physics2DSystem): void;
+
+    // Collision rule: may `eater` eat `prey` if it's big enough?
+    canEat(game: modu.Game, eater: modu.Entity, prey: modu.Entity): boolean;
+
+    // Extra eaters (with a Mass, Transform2D and Sprite) that take their
+    // turn in the shared eat system by mass; eatCell is offered each cell
+    // near them, in eid order
+    getEaters?(game: modu.Game): modu.Entity[];
+    eatCell?(game: modu.Game, eater: modu.Entity, prey: modu.Entity): void;
+
+    // Win/round condition, checked every frame. A round that ends (or
+    // times out) freezes for the results screen, then the world resets.
+    checkRoundEnd?(game: modu.Game): RoundOutcome | null;
+    onRoundEnd?(game: modu.Game, outcome: RoundOutcome): void;
+}
+
+export interface RoundResultEntry {
+    clientId: number;
+    rank: number;
+    name: string;
+    mass: number;
+    stats: PlayerStatsView;
+}
+
+// Cumulative per-player stats, as shown to players
+export interface PlayerStatsView {
+    kills: number;
+    foodEaten: number;
+    cellsLost: number;
+    peakMass: number;
+    secondsAlive: number;
+}
+
+// What the death screen shows the local player
+export interface DeathInfo {
+    killerName: string | null;  // null when not eaten by a player
+    finalMass: number;
+    canRespawn: boolean;
+    stats: PlayerStatsView;
+}
+
+export interface KillFeedEntry {
+    eaterName: string;
+    victimName: string;
+    mass: number;
+    frame: number;
+}
+
+// Per-frame input, from the network for humans or BotInput for bots
+export interface PlayerInput {
+    target?: { x: number; y: number };
+    split?: boolean;
+    eject?: boolean;
+    respawn?: boolean;
+}
+
+// Data a client sends along with its join request
+export interface JoinData {
+    nickname?: string;
+    spectate?: boolean;         // Watch only - no cell is ever spawned
+}
+
+export interface LeaderboardEntry {
+    clientId: number;
+    name: string;
+    mass: number;
+    rank: number;
+}
+
+export interface TeamEntry {
+    team: number;
+    name: string;
+    color: string;
+    mass: number;
+}
+
+export interface LeaderboardView {
+    top: LeaderboardEntry[];
+    local: LeaderboardEntry | null;
+    teams: TeamEntry[];
+}
+
+// Client-only camera used while the local player has no cells
+export interface SpectatorCamera {
+    update(cameraEntity: modu.Entity, alpha: number): void;
+    getStatus(): string | null;  // HUD hint, null while playing
+}
+
+// A client joining or leaving a headless run before the given frame runs
+export interface HeadlessEvent {
+    frame: number;
+    type: 'connect' | 'disconnect';
+    clientId: string;
+    joinData?: JoinData;
+}
+
+export interface HeadlessOptions {
+    frames: number;
+    seed?: number;              // Engine RNG seed, default 1
+    mode?: string;              // Mode name as in ?mode=, default ffa
+    bots?: number;
+    events?: HeadlessEvent[];
+    inputs?: (frame: number, clientId: string) => PlayerInput | null;
+    hashEvery?: number;         // Record a state hash every N frames, default 1
+}
+
+export interface HeadlessResult {
+    game: modu.Game;
+    hashes: number[];
+    finalHash: number;
+}
+
+// A headless room that keeps its own RNG stream, so several can be stepped
+// side by side
+export interface HeadlessRoom {
+    game: modu.Game;
+    mode: GameMode;
+    connected: string[];        // Human clients, in join order
+    random: unknown;            // saveRandomState() between frames
+}
+
+// Input change in a replay: [frame] for no input, otherwise
+// [frame, targetX, targetY, buttons] with buttons a REPLAY_BUTTONS bitmask
+export type ReplayInput = [number] | [number, number, number, number];
+
+// Engine state a replay (or a seek point) starts from
+export interface ReplayCheckpoint {
+    frame: number;
+    snapshot: unknown;          // game.world.getSnapshot()
+    random: unknown;            // saveRandomState()
+    clients: string[];          // Connected human clients, in join order
+}
+
+export interface ReplayFile {
+    version: number;
+    room: string;               // Carries the mode and bot count
+    start: ReplayCheckpoint;
+    events: HeadlessEvent[];
+    inputs: Record<string, ReplayInput[]>;  // Per client, only frames where input changed
+    hashes: number[];           // State hash per frame, from start.frame
+}
+
+export interface ReplayRecorder {
+    start(): void;                      // Begin here; call between ticks, not from a system
+    recordEvent(type: HeadlessEvent['type'], clientId: string, joinData?: JoinData): void;
+    onFrame(frame: number): void;       // Replay probe callback
+    finish(): ReplayFile | null;        // null until started
+}
+
+export interface ReplayPlayer {
+    readonly frame: number;
+    readonly endFrame: number;
+    readonly mismatchFrame: number | null;  // First frame whose hash differed
+    step(): void;
+    seek(frame: number): void;
+    onFrame(): number;                  // Replay probe callback; returns the replay frame
+}
+
+export interface ReplayControlHandlers {
+    togglePause(): void;
+    setSpeed(speed: number): void;
+    seek(frame: number): void;
+}
+
+export interface ReplayControls {
+    update(frame: number, paused: boolean, mismatchFrame: number | null): void;
 }
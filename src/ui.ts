@@ -0,0 +1,255 @@
+/**
+ * Cell Eater - DOM Overlays
+ *
+ * Screens shown on top of the canvas. Built in code so dist/index.html
+ * only needs the canvas, minimap and size display elements.
+ */
+
+import { MAX_NICKNAME_LENGTH, REPLAY_SPEEDS } from './constants';
+import { sanitizeNickname } from './systems';
+import { DeathInfo, ReplayFile, ReplayControlHandlers, ReplayControls } from './types';
+
+const NICKNAME_STORAGE_KEY = 'cell-eater.nickname';
+const DEATH_SCREEN_ID = 'death-screen';
+const DEATH_RETURN_ID = 'death-return';
+
+function createOverlay(id: string): HTMLDivElement {
+    const overlay = document.createElement('div');
+    overlay.id = id;
+    overlay.style.cssText = [
+        'position: fixed',
+        'inset: 0',
+        'display: flex',
+        'flex-direction: column',
+        'align-items: center',
+        'justify-content: center',
+        'gap: 16px',
+        'background: rgba(0, 0, 0, 0.6)',
+        'font-family: Arial, sans-serif',
+        'color: #fff',
+        'z-index: 200',
+    ].join(';');
+    return overlay;
+}
+
+function createButton(label: string): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = label;
+    button.style.cssText = [
+        'padding: 10px 32px',
+        'font-size: 20px',
+        'font-weight: bold',
+        'border: none',
+        'border-radius: 4px',
+        'background: #51cf66',
+        'color: #fff',
+        'cursor: pointer',
+    ].join(';');
+    return button;
+}
+
+export function showStartScreen(onPlay: (nickname: string, spectate: boolean) => void): void {
+    const overlay = createOverlay('start-screen');
+
+    const title = document.createElement('h1');
+    title.textContent = 'Cell Eater';
+    title.style.cssText = 'font-size: 48px; text-shadow: 2px 2px 4px rgba(0, 0, 0, 0.8)';
+
+    const nameInput = document.createElement('input');
+    nameInput.type = 'text';
+    nameInput.placeholder = 'Nickname';
+    nameInput.maxLength = MAX_NICKNAME_LENGTH;
+    nameInput.value = localStorage.getItem(NICKNAME_STORAGE_KEY) || '';
+    nameInput.style.cssText = 'padding: 10px; font-size: 20px; width: 260px; text-align: center; border-radius: 4px; border: none';
+
+    const playButton = createButton('Play');
+    const spectateButton = createButton('Spectate');
+    spectateButton.style.background = '#868e96';
+
+    function submit(spectate: boolean): void {
+        const nickname = sanitizeNickname(nameInput.value);
+        localStorage.setItem(NICKNAME_STORAGE_KEY, nickname);
+        overlay.remove();
+        onPlay(nickname, spectate);
+    }
+
+    playButton.addEventListener('click', () => submit(false));
+    spectateButton.addEventListener('click', () => submit(true));
+    nameInput.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter') submit(false);
+    });
+
+    overlay.append(title, nameInput, playButton, spectateButton);
+    document.body.appendChild(overlay);
+    nameInput.focus();
+}
+
+// Replaces any death screen already showing. onPlayAgain only requests a
+// respawn - the screen stays up until the simulation has spawned the player.
+export function showDeathScreen(info: DeathInfo, onPlayAgain: () => void): void {
+    hideDeathScreen();
+    const overlay = createOverlay(DEATH_SCREEN_ID);
+
+    const title = document.createElement('h1');
+    title.textContent = info.killerName ? 'You were eaten' : 'You were eliminated';
+    title.style.cssText = 'font-size: 48px; text-shadow: 2px 2px 4px rgba(0, 0, 0, 0.8)';
+
+    const details = document.createElement('div');
+    details.style.cssText = 'font-size: 20px; text-align: center; line-height: 1.6';
+    if (info.killerName) {
+        const killer = document.createElement('div');
+        killer.textContent = `Eaten by ${info.killerName}`;
+        details.appendChild(killer);
+    }
+
+    const { stats } = info;
+    for (const line of [
+        `Final mass: ${info.finalMass} (peak ${stats.peakMass})`,
+        `Kills: ${stats.kills} - Cells lost: ${stats.cellsLost}`,
+        `Food eaten: ${stats.foodEaten} - Time alive: ${stats.secondsAlive}s`,
+    ]) {
+        const row = document.createElement('div');
+        row.textContent = line;
+        details.appendChild(row);
+    }
+
+    overlay.append(title, details);
+
+    if (info.canRespawn) {
+        const playButton = createButton('Play Again');
+        playButton.addEventListener('click', () => {
+            playButton.disabled = true;
+            playButton.textContent = 'Respawning...';
+            onPlayAgain();
+        });
+        overlay.appendChild(playButton);
+    } else {
+        const waiting = document.createElement('div');
+        waiting.textContent = 'Waiting for the next round';
+        waiting.style.cssText = 'font-size: 18px; color: #ccc';
+        overlay.appendChild(waiting);
+    }
+
+    // Dismiss the screen and watch the match with the spectator camera,
+    // leaving a button that brings the screen (and Play Again) back
+    const spectateButton = createButton('Spectate');
+    spectateButton.style.background = '#868e96';
+    spectateButton.addEventListener('click', () => {
+        overlay.remove();
+        const returnButton = createButton('Back');
+        returnButton.id = DEATH_RETURN_ID;
+        returnButton.style.cssText += ';position: fixed; left: 20px; bottom: 20px; z-index: 200';
+        returnButton.addEventListener('click', () => showDeathScreen(info, onPlayAgain));
+        document.body.appendChild(returnButton);
+    });
+    overlay.appendChild(spectateButton);
+
+    document.body.appendChild(overlay);
+}
+
+export function hideDeathScreen(): void {
+    document.getElementById(DEATH_SCREEN_ID)?.remove();
+    document.getElementById(DEATH_RETURN_ID)?.remove();
+}
+
+export function downloadFile(filename: string, text: string): void {
+    const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+export function showReplayPicker(onLoad: (replay: ReplayFile) => void): void {
+    const overlay = createOverlay('replay-picker');
+
+    const title = document.createElement('h1');
+    title.textContent = 'Open Replay';
+    title.style.cssText = 'font-size: 48px; text-shadow: 2px 2px 4px rgba(0, 0, 0, 0.8)';
+
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.accept = '.json,application/json';
+
+    const error = document.createElement('div');
+    error.style.cssText = 'color: #ff6b6b; font-size: 16px';
+
+    fileInput.addEventListener('change', async () => {
+        const file = fileInput.files?.[0];
+        if (!file) return;
+        try {
+            const replay = JSON.parse(await file.text()) as ReplayFile;
+            overlay.remove();
+            onLoad(replay);
+        } catch (e) {
+            error.textContent = `Couldn't load replay: ${e instanceof Error ? e.message : e}`;
+        }
+    });
+
+    overlay.append(title, fileInput, error);
+    document.body.appendChild(overlay);
+}
+
+// Playback bar under the round timer (the spectator hint sits at the bottom)
+export function showReplayControls(startFrame: number, endFrame: number, handlers: ReplayControlHandlers): ReplayControls {
+    const bar = document.createElement('div');
+    bar.id = 'replay-controls';
+    bar.style.cssText = [
+        'position: fixed',
+        'left: 50%',
+        'top: 56px',
+        'transform: translateX(-50%)',
+        'display: flex',
+        'align-items: center',
+        'gap: 12px',
+        'padding: 8px 16px',
+        'background: rgba(0, 0, 0, 0.6)',
+        'border-radius: 4px',
+        'font-family: Arial, sans-serif',
+        'color: #fff',
+        'z-index: 200',
+    ].join(';');
+
+    const pauseButton = createButton('Pause');
+    pauseButton.style.padding = '4px 16px';
+    pauseButton.style.fontSize = '16px';
+    pauseButton.addEventListener('click', () => handlers.togglePause());
+
+    const speedSelect = document.createElement('select');
+    for (const speed of REPLAY_SPEEDS) {
+        const option = document.createElement('option');
+        option.value = `${speed}`;
+        option.textContent = `${speed}x`;
+        option.selected = speed === 1;
+        speedSelect.appendChild(option);
+    }
+    speedSelect.addEventListener('change', () => handlers.setSpeed(parseFloat(speedSelect.value)));
+
+    const seekBar = document.createElement('input');
+    seekBar.type = 'range';
+    seekBar.min = `${startFrame}`;
+    seekBar.max = `${endFrame}`;
+    seekBar.style.width = '320px';
+    let seeking = false;
+    seekBar.addEventListener('input', () => seeking = true);
+    seekBar.addEventListener('change', () => {
+        seeking = false;
+        handlers.seek(parseInt(seekBar.value, 10));
+    });
+
+    const status = document.createElement('span');
+    status.style.cssText = 'font-size: 14px; min-width: 200px';
+
+    bar.append(pauseButton, speedSelect, seekBar, status);
+    document.body.appendChild(bar);
+
+    return {
+        update(frame: number, paused: boolean, mismatchFrame: number | null): void {
+            pauseButton.textContent = paused ? 'Play' : 'Pause';
+            if (!seeking) seekBar.value = `${frame}`;
+            status.textContent = `Frame ${frame - startFrame} / ${endFrame - startFrame}`;
+            if (mismatchFrame !== null) status.textContent += ` - desync at ${mismatchFrame - startFrame}`;
+        },
+    };
+}
@@ -1,356 +1,28 @@
 /**
  * Cell Eater Determinism Tests
  *
- * Tests that multiple game instances produce identical state
- * when given the same inputs in the same order.
+ * Runs the shipped simulation headless and checks that the same inputs in
+ * the same order always produce the same state, and that the game's rules
+ * do what they should when driven through the real systems.
  */
 
-// Import engine directly
-import {
-    World,
-    Transform2D,
-    Body2D,
-    Player,
-    Sprite,
-    BODY_KINEMATIC,
-    BODY_STATIC,
-    SHAPE_CIRCLE,
-    dRandom,
-    dSqrt,
-    fpMul,
-    fpDiv,
-    saveRandomState,
-    loadRandomState,
-} from '../../../engine/src/index';
-
-// Helper to seed the RNG by loading a state derived from a seed number
-function seedRandom(seed: number): void {
-    // Mix the seed into two state values (same algorithm as engine's internal setSeed)
-    seed = seed >>> 0;
-    if (seed === 0) seed = 1;
-
-    let s = seed;
-    s = ((s >>> 16) ^ s) * 0x45d9f3b >>> 0;
-    s = ((s >>> 16) ^ s) * 0x45d9f3b >>> 0;
-    const s0 = ((s >>> 16) ^ s) >>> 0;
-
-    s = (seed * 0x9e3779b9) >>> 0;
-    s = ((s >>> 16) ^ s) * 0x45d9f3b >>> 0;
-    s = ((s >>> 16) ^ s) * 0x45d9f3b >>> 0;
-    let s1 = ((s >>> 16) ^ s) >>> 0;
-
-    if (s0 === 0 && s1 === 0) {
-        loadRandomState({ s0: 1, s1: 2 });
-    } else {
-        loadRandomState({ s0, s1 });
-    }
-}
-
-// ============================================
-// Constants (same as game.ts)
-// ============================================
-
-const WORLD_WIDTH = 6000;
-const WORLD_HEIGHT = 6000;
-const SPEED = 5;
-const INITIAL_RADIUS = 20;
-const MAX_RADIUS = 200;
-const EAT_RATIO = 1.2;
-const FOOD_GROW = 0.05;
-const PLAYER_GROW = 0.3;
-const FOOD_COUNT = 100; // Reduced for tests
-const MIN_SPLIT_RADIUS = 15;
-const SPLIT_VELOCITY = 15;
-const MAX_CELLS_PER_PLAYER = 16;
-const MERGE_DELAY_FRAMES = 600;
-
-const COLORS = [
-    '#ff6b6b', '#ff8e72', '#ffa94d', '#ffd43b', '#a9e34b', '#69db7c',
-    '#38d9a9', '#3bc9db', '#4dabf7', '#748ffc', '#9775fa', '#da77f2',
-];
+import * as modu from 'modu-engine';
+import { HeadlessEvent, HeadlessOptions, HeadlessRoom, PlayerInput, ReplayFile, ReplayPlayer, ReplayRecorder } from '../src/types';
+import { MAX_MASS, MAX_CELLS_PER_PLAYER, VIRUS_MASS, VIRUS_FEED_COUNT, INITIAL_MASS, FOOD_MASS, EJECT_MASS, SPAWN_DANGER_DISTANCE, SPAWN_PROTECTION_FRAMES, EJECT_OWNER_GRACE_FRAMES, MOTHERCELL_MASS, MOTHERCELL_DIGEST_PELLETS } from '../src/constants';
+import { ClientInfo, MergeCooldown, PlayerStats, Team } from '../src/entities';
+import { getPlayerCells, getMass, setMass, getTotalMass, getClientRecord, getClientRecords, getKillFeed, spawnFood, spawnVirus } from '../src/systems';
+import { createHeadlessGame, createHeadlessRoom, runHeadless, seedRandom, stepRoom, withDeterministicMath, withoutLogs } from '../src/headless';
+import { getRoomName } from '../src/modes';
+import { createReplayPlayer, createReplayRecorder, verifyReplay } from '../src/replay';
 
 // ============================================
 // Test Harness
 // ============================================
 
-interface TestWorld {
-    world: World;
-    cellMergeFrame: Map<number, number>;
-}
-
-function createTestWorld(seed: number): TestWorld {
-    seedRandom(seed);
-
-    const world = new World();
-    const cellMergeFrame = new Map<number, number>();
-
-    // Define entity types
-    world.defineEntity('cell')
-        .with(Transform2D)
-        .with(Sprite, { shape: SHAPE_CIRCLE, radius: INITIAL_RADIUS, layer: 1 })
-        .with(Body2D, { shapeType: SHAPE_CIRCLE, radius: INITIAL_RADIUS, bodyType: BODY_KINEMATIC })
-        .with(Player)
-        .register();
-
-    world.defineEntity('food')
-        .with(Transform2D)
-        .with(Sprite, { shape: SHAPE_CIRCLE, radius: 8, layer: 0 })
-        .with(Body2D, { shapeType: SHAPE_CIRCLE, radius: 8, bodyType: BODY_STATIC })
-        .register();
-
-    return { world, cellMergeFrame };
-}
-
-function spawnFood(tw: TestWorld): number {
-    const colorIndex = (dRandom() * COLORS.length) | 0;
-    const color = tw.world.internString('color', COLORS[colorIndex]);
-    const x = 50 + (dRandom() * (WORLD_WIDTH - 100)) | 0;
-    const y = 50 + (dRandom() * (WORLD_HEIGHT - 100)) | 0;
-
-    return tw.world.spawn('food', { x, y, color });
-}
-
-// Simple clientId interning for tests
-const clientIdMap = new Map<string, number>();
-let nextClientNum = 1;
-
-function internClientId(clientId: string): number {
-    let num = clientIdMap.get(clientId);
-    if (num === undefined) {
-        num = nextClientNum++;
-        clientIdMap.set(clientId, num);
-    }
-    return num;
-}
-
-function resetClientIds(): void {
-    clientIdMap.clear();
-    nextClientNum = 1;
-}
-
-function spawnCell(tw: TestWorld, clientId: string, x?: number, y?: number): number {
-    const colorIndex = (dRandom() * COLORS.length) | 0;
-    const color = tw.world.internString('color', COLORS[colorIndex]);
-    const numericClientId = internClientId(clientId);
-
-    return tw.world.spawn('cell', {
-        x: x ?? (100 + (dRandom() * (WORLD_WIDTH - 200)) | 0),
-        y: y ?? (100 + (dRandom() * (WORLD_HEIGHT - 200)) | 0),
-        clientId: numericClientId,
-        color
-    });
-}
-
-function compareStrings(a: string, b: string): number {
-    if (a < b) return -1;
-    if (a > b) return 1;
-    return 0;
-}
-
-function movementSystem(tw: TestWorld): void {
-    const { world, cellMergeFrame } = tw;
-
-    // Group cells by player
-    const playerCells = new Map<number, number[]>();
-    const allCells = [...world.query('cell')].sort((a, b) => a - b);
-
-    for (const eid of allCells) {
-        const entity = world.getEntity(eid);
-        if (!entity || entity.destroyed) continue;
-
-        const clientId = entity.get(Player).clientId;
-        if (clientId === undefined || clientId === null) continue;
-
-        if (!playerCells.has(clientId)) playerCells.set(clientId, []);
-        playerCells.get(clientId)!.push(eid);
-    }
-
-    // Process in deterministic order
-    const sortedPlayers = [...playerCells.entries()].sort((a, b) => {
-        const strA = world.getClientIdString(a[0]) || '';
-        const strB = world.getClientIdString(b[0]) || '';
-        return compareStrings(strA, strB);
-    });
-
-    // Compute repulsion forces
-    const repulsion = new Map<number, { vx: number; vy: number }>();
-
-    for (const [, siblings] of sortedPlayers) {
-        for (const eid of siblings) {
-            repulsion.set(eid, { vx: 0, vy: 0 });
-        }
-
-        if (siblings.length < 2) continue;
-
-        for (let i = 0; i < siblings.length; i++) {
-            const eidA = siblings[i];
-            const entityA = world.getEntity(eidA)!;
-            const tA = entityA.get(Transform2D);
-            const sA = entityA.get(Sprite);
-
-            for (let j = i + 1; j < siblings.length; j++) {
-                const eidB = siblings[j];
-                const entityB = world.getEntity(eidB)!;
-                const tB = entityB.get(Transform2D);
-                const sB = entityB.get(Sprite);
-
-                const dx = tA.x - tB.x;
-                const dy = tA.y - tB.y;
-                const distSq = fpMul(dx, dx) + fpMul(dy, dy);
-                const minDist = sA.radius + sB.radius;
-                const minDistSq = fpMul(minDist, minDist);
-
-                if (distSq < minDistSq && distSq > 1) {
-                    const dist = dSqrt(distSq) || 1;
-                    const overlap = minDist - dist;
-                    const pushForce = fpMul(overlap, 0.3) + 1;
-                    const nx = fpDiv(dx, dist);
-                    const ny = fpDiv(dy, dist);
-
-                    const repA = repulsion.get(eidA)!;
-                    const repB = repulsion.get(eidB)!;
-                    repA.vx += fpMul(nx, pushForce);
-                    repA.vy += fpMul(ny, pushForce);
-                    repB.vx -= fpMul(nx, pushForce);
-                    repB.vy -= fpMul(ny, pushForce);
-                }
-            }
-        }
-    }
-
-    // Apply movement
-    for (const [clientId, cells] of sortedPlayers) {
-        const playerInput = world.getInput(clientId);
-
-        for (const eid of cells) {
-            const entity = world.getEntity(eid)!;
-            const sprite = entity.get(Sprite);
-            const transform = entity.get(Transform2D);
-            const body = entity.get(Body2D);
-
-            let vx = 0, vy = 0;
-
-            if (playerInput?.target) {
-                const dx = playerInput.target.x - transform.x;
-                const dy = playerInput.target.y - transform.y;
-                const distSq = fpMul(dx, dx) + fpMul(dy, dy);
-                const dist = dSqrt(distSq) || 1;
-
-                const speedMultiplier = Math.min(1, fpDiv(dist, sprite.radius));
-                const speed = fpMul(SPEED, speedMultiplier);
-
-                if (speed > 0.1) {
-                    vx = fpMul(fpDiv(dx, dist), speed);
-                    vy = fpMul(fpDiv(dy, dist), speed);
-                }
-            }
-
-            const rep = repulsion.get(eid);
-            if (rep) {
-                vx += rep.vx;
-                vy += rep.vy;
-            }
-
-            body.vx = vx;
-            body.vy = vy;
-
-            // Apply velocity to position (simple integration)
-            transform.x += body.vx;
-            transform.y += body.vy;
-
-            // Clamp to world bounds
-            const r = sprite.radius;
-            transform.x = Math.max(r, Math.min(WORLD_WIDTH - r, transform.x));
-            transform.y = Math.max(r, Math.min(WORLD_HEIGHT - r, transform.y));
-        }
-    }
-}
-
-function collisionSystem(tw: TestWorld): void {
-    const { world, cellMergeFrame } = tw;
-
-    // Cell eats food
-    const cells = [...world.query('cell')].sort((a, b) => a - b);
-    const foods = [...world.query('food')].sort((a, b) => a - b);
-
-    for (const cellEid of cells) {
-        const cell = world.getEntity(cellEid);
-        if (!cell || cell.destroyed) continue;
-
-        const cellT = cell.get(Transform2D);
-        const cellS = cell.get(Sprite);
-
-        for (const foodEid of foods) {
-            const food = world.getEntity(foodEid);
-            if (!food || food.destroyed) continue;
+const SEED = 12345;
 
-            const foodT = food.get(Transform2D);
-            const foodS = food.get(Sprite);
-
-            const dx = cellT.x - foodT.x;
-            const dy = cellT.y - foodT.y;
-            const distSq = fpMul(dx, dx) + fpMul(dy, dy);
-            const minDist = cellS.radius + foodS.radius;
-
-            if (distSq < fpMul(minDist, minDist)) {
-                cellS.radius = Math.min(cellS.radius + fpMul(foodS.radius, FOOD_GROW), MAX_RADIUS);
-                cell.get(Body2D).radius = cellS.radius;
-                food.destroy();
-            }
-        }
-    }
-
-    // Cell eats smaller cell (different players)
-    for (let i = 0; i < cells.length; i++) {
-        const eidA = cells[i];
-        const cellA = world.getEntity(eidA);
-        if (!cellA || cellA.destroyed) continue;
-
-        for (let j = i + 1; j < cells.length; j++) {
-            const eidB = cells[j];
-            const cellB = world.getEntity(eidB);
-            if (!cellB || cellB.destroyed) continue;
-
-            // Skip same player
-            if (cellA.get(Player).clientId === cellB.get(Player).clientId) continue;
-
-            const tA = cellA.get(Transform2D);
-            const tB = cellB.get(Transform2D);
-            const sA = cellA.get(Sprite);
-            const sB = cellB.get(Sprite);
-
-            const dx = tA.x - tB.x;
-            const dy = tA.y - tB.y;
-            const distSq = fpMul(dx, dx) + fpMul(dy, dy);
-            const minDist = sA.radius + sB.radius;
-
-            if (distSq < fpMul(minDist, minDist)) {
-                // Bigger eats smaller
-                if (sA.radius > fpMul(sB.radius, EAT_RATIO)) {
-                    sA.radius = Math.min(sA.radius + fpMul(sB.radius, PLAYER_GROW), MAX_RADIUS);
-                    cellA.get(Body2D).radius = sA.radius;
-                    cellB.destroy();
-                    cellMergeFrame.delete(eidB);
-                } else if (sB.radius > fpMul(sA.radius, EAT_RATIO)) {
-                    sB.radius = Math.min(sB.radius + fpMul(sA.radius, PLAYER_GROW), MAX_RADIUS);
-                    cellB.get(Body2D).radius = sB.radius;
-                    cellA.destroy();
-                    cellMergeFrame.delete(eidA);
-                }
-            }
-        }
-    }
-}
-
-function stepWorld(tw: TestWorld): void {
-    movementSystem(tw);
-    collisionSystem(tw);
-    tw.world.frame++;
-}
-
-// ============================================
-// Test Functions
-// ============================================
+// Tests run with console.log silenced; diagnostics go through this
+const log = console.log;
 
 let passed = 0;
 let failed = 0;
@@ -358,397 +30,490 @@ let failed = 0;
 function test(name: string, fn: () => boolean) {
     try {
         if (fn()) {
-            console.log(`  PASS: ${name}`);
+            console.log(`  ✓ ${name}`);
             passed++;
         } else {
-            console.log(`  FAIL: ${name}`);
+            console.log(`  ✗ ${name}`);
             failed++;
         }
     } catch (e) {
-        console.log(`  FAIL: ${name} - ${e}`);
+        console.log(`  ✗ ${name} - ${e}`);
         failed++;
     }
 }
 
-// ============================================
-// Test Suite
-// ============================================
+const quiet = (fn: () => boolean) => () => withoutLogs(() => withDeterministicMath(fn));
+
+// Two players steering in circles, one splitting every few seconds
+function scriptedRun(overrides: Partial<HeadlessOptions> = {}): HeadlessOptions {
+    return {
+        frames: 600,
+        seed: SEED,
+        hashEvery: 60,
+        events: [
+            { frame: 0, type: 'connect', clientId: 'player1', joinData: { nickname: 'One' } },
+            { frame: 0, type: 'connect', clientId: 'player2', joinData: { nickname: 'Two' } },
+        ],
+        inputs: (frame, clientId) => {
+            const angle = frame / 60 + (clientId === 'player1' ? 0 : Math.PI);
+            return {
+                target: { x: 3000 + Math.round(Math.cos(angle) * 1000), y: 3000 + Math.round(Math.sin(angle) * 1000) },
+                split: clientId === 'player1' && frame % 180 === 90,
+            };
+        },
+        ...overrides,
+    };
+}
 
-console.log('=== Cell Eater Determinism Tests ===\n');
+// A room with `clients` joined and its food and viruses cleared away, so
+// the only mass that moves is what a test sets up. Call inside quiet().
+function createSandbox(clients: string[], mode = 'ffa'): HeadlessRoom {
+    const sandbox = createHeadlessRoom(mode, SEED);
+    const events = clients.map((clientId): HeadlessEvent => ({ frame: 0, type: 'connect', clientId }));
+    stepRoom(sandbox, events, () => null);
 
-// Test 1: Empty world determinism
-console.log('Test 1: Empty World');
+    for (const type of ['food', 'virus']) {
+        for (const entity of [...sandbox.game.query(type)]) entity.destroy();
+    }
+    return sandbox;
+}
 
-test('Two empty worlds have same hash', () => {
-    const tw1 = createTestWorld(12345);
-    const tw2 = createTestWorld(12345);
+// Run `frames` frames with every player holding `input` (none by default)
+function step(sandbox: HeadlessRoom, frames = 1, input: (frame: number, clientId: string) => PlayerInput | null = () => null): void {
+    for (let i = 0; i < frames; i++) stepRoom(sandbox, [], input);
+}
 
-    return tw1.world.getStateHash() === tw2.world.getStateHash();
-});
+function cellsOf(sandbox: HeadlessRoom, clientId: string): modu.Entity[] {
+    return getPlayerCells(sandbox.game, sandbox.game.internClientId(clientId)).sort((a, b) => a.eid - b.eid);
+}
 
-// Test 2: Food spawning determinism
-console.log('\nTest 2: Food Spawning');
+function moveTo(entity: modu.Entity, x: number, y: number): void {
+    const t = entity.get(modu.Transform2D);
+    t.x = x;
+    t.y = y;
+}
 
-test('Food spawns deterministically', () => {
-    const tw1 = createTestWorld(12345);
-    const tw2 = createTestWorld(12345);
+const near = (a: number, b: number, tolerance = 1e-6) => Math.abs(a - b) <= tolerance;
 
-    // Spawn food in both worlds
-    for (let i = 0; i < 10; i++) {
-        spawnFood(tw1);
-        spawnFood(tw2);
-    }
+// ============================================
+// Tests
+// ============================================
 
-    return tw1.world.getStateHash() === tw2.world.getStateHash();
-});
+console.log('=== Cell Eater Determinism Tests ===\n');
 
-test('Different seeds produce different results', () => {
-    // First world with seed 12345
-    seedRandom(12345);
-    const tw1 = createTestWorld(12345);
-    for (let i = 0; i < 10; i++) {
-        spawnFood(tw1);
+console.log('Test 1: Replaying a Script');
+
+test('Same script produces the same hashes', quiet(() => {
+    const a = runHeadless(scriptedRun());
+    const b = runHeadless(scriptedRun());
+    return a.hashes.length === 10 && a.hashes.every((hash, i) => hash === b.hashes[i]);
+}));
+
+test('Different seeds produce different state', quiet(() => {
+    const a = runHeadless(scriptedRun());
+    const b = runHeadless(scriptedRun({ seed: SEED + 1 }));
+    return a.finalHash !== b.finalHash;
+}));
+
+test('Different inputs produce different state', quiet(() => {
+    const a = runHeadless(scriptedRun());
+    const b = runHeadless(scriptedRun({ inputs: () => ({ target: { x: 0, y: 0 } }) }));
+    return a.finalHash !== b.finalHash;
+}));
+
+test('Joins, leaves and bots are deterministic in every mode', quiet(() => {
+    for (const mode of ['ffa', 'teams', 'experimental', 'royale', 'timed']) {
+        const options = scriptedRun({
+            mode,
+            bots: 3,
+            events: [
+                ...scriptedRun().events!,
+                { frame: 120, type: 'connect', clientId: 'player3' },
+                { frame: 300, type: 'disconnect', clientId: 'player2' },
+            ],
+        });
+        if (runHeadless(options).finalHash !== runHeadless(options).finalHash) {
+            log(`    Desync in mode ${mode}`);
+            return false;
+        }
     }
-    const hash1 = tw1.world.getStateHash();
-
-    // Second world with different seed
-    seedRandom(54321);
-    const tw2 = createTestWorld(54321);
-    for (let i = 0; i < 10; i++) {
-        spawnFood(tw2);
+    return true;
+}));
+
+console.log('\nTest 2: RNG Save/Restore');
+
+test('RNG state can be saved and restored', quiet(() => {
+    seedRandom(SEED);
+    Math.random();
+    Math.random();
+
+    const saved = modu.saveRandomState();
+    const first = [Math.random(), Math.random()];
+    modu.loadRandomState(saved);
+    const again = [Math.random(), Math.random()];
+
+    return first[0] === again[0] && first[1] === again[1];
+}));
+
+console.log('\nTest 3: Mass');
+
+test('Splitting halves a cell without losing mass', quiet(() => {
+    const sandbox = createSandbox(['player1']);
+    const [cell] = cellsOf(sandbox, 'player1');
+    const t = cell.get(modu.Transform2D);
+    const target = { x: t.x + 500, y: t.y };
+    const before = getMass(cell);
+
+    step(sandbox, 1, () => ({ target, split: true }));
+    const cells = cellsOf(sandbox, 'player1');
+    if (cells.length !== 2) {
+        log(`    Expected 2 cells after splitting, found ${cells.length}`);
+        return false;
     }
-    const hash2 = tw2.world.getStateHash();
-
-    return hash1 !== hash2;
-});
-
-// Test 3: Cell spawning determinism
-console.log('\nTest 3: Cell Spawning');
-
-test('Cell spawns deterministically', () => {
-    const tw1 = createTestWorld(12345);
-    const tw2 = createTestWorld(12345);
-
-    spawnCell(tw1, 'player1');
-    spawnCell(tw2, 'player1');
-
-    return tw1.world.getStateHash() === tw2.world.getStateHash();
-});
-
-test('Multiple cells spawn deterministically', () => {
-    const tw1 = createTestWorld(12345);
-    const tw2 = createTestWorld(12345);
-
-    spawnCell(tw1, 'player1');
-    spawnCell(tw1, 'player2');
-    spawnCell(tw2, 'player1');
-    spawnCell(tw2, 'player2');
-
-    return tw1.world.getStateHash() === tw2.world.getStateHash();
-});
-
-// Test 4: Movement determinism
-console.log('\nTest 4: Movement');
-
-test('Movement without input is deterministic', () => {
-    const tw1 = createTestWorld(12345);
-    const tw2 = createTestWorld(12345);
-
-    spawnCell(tw1, 'player1', 100, 100);
-    spawnCell(tw2, 'player1', 100, 100);
-
-    for (let i = 0; i < 60; i++) {
-        stepWorld(tw1);
-        stepWorld(tw2);
+    return near(getTotalMass(cells), before) && near(getMass(cells[0]), getMass(cells[1]));
+}));
+
+test('Eating a cell moves all of its mass to the eater', quiet(() => {
+    const sandbox = createSandbox(['player1', 'player2']);
+    const [eater] = cellsOf(sandbox, 'player1');
+    const [prey] = cellsOf(sandbox, 'player2');
+    setMass(eater, 50);
+    moveTo(eater, 3000, 3000);
+    moveTo(prey, 3000, 3000);
+
+    step(sandbox);
+    if (cellsOf(sandbox, 'player2').length !== 0) {
+        log('    Expected player2 to be eaten');
+        return false;
     }
 
-    return tw1.world.getStateHash() === tw2.world.getStateHash();
-});
-
-test('Movement with input is deterministic', () => {
-    resetClientIds();
-    const tw1 = createTestWorld(12345);
-    const tw2 = createTestWorld(12345);
-
-    spawnCell(tw1, 'player1', 100, 100);
-    resetClientIds(); // Reset for tw2 to get same clientId
-    spawnCell(tw2, 'player1', 100, 100);
-
-    const clientId = internClientId('player1');
-
-    // Apply same input
-    const input = { target: { x: 500, y: 500 } };
-
-    for (let i = 0; i < 60; i++) {
-        tw1.world.setInput(clientId, input);
-        tw2.world.setInput(clientId, input);
-        stepWorld(tw1);
-        stepWorld(tw2);
+    const record = getClientRecord(sandbox.game, sandbox.game.internClientId('player2'));
+    return near(getTotalMass(cellsOf(sandbox, 'player1')), 50 + INITIAL_MASS) &&
+        record?.get(PlayerStats).cellsLost === 1 &&
+        getKillFeed(sandbox.game).length === 1;
+}));
+
+console.log('\nTest 4: Covering');
+
+test('A cell that only brushes its prey doesn\'t eat it', quiet(() => {
+    const sandbox = createSandbox(['player1', 'player2']);
+    const [eater] = cellsOf(sandbox, 'player1');
+    const [prey] = cellsOf(sandbox, 'player2');
+    setMass(eater, 50);
+    moveTo(eater, 3000, 3000);
+    // Edges overlap, but the eater doesn't reach past the prey's centre
+    moveTo(prey, 3000 + eater.get(modu.Sprite).radius + 5, 3000);
+
+    step(sandbox);
+    return cellsOf(sandbox, 'player2').length === 1;
+}));
+
+test('Covered food adds FOOD_MASS', quiet(() => {
+    const sandbox = createSandbox(['player1']);
+    const [cell] = cellsOf(sandbox, 'player1');
+    const { x, y } = cell.get(modu.Transform2D);
+    const before = getMass(cell);
+    spawnFood(sandbox.game, { x, y });
+
+    step(sandbox);
+    return near(getTotalMass(cellsOf(sandbox, 'player1')), before + FOOD_MASS);
+}));
+
+test('A mothercell eats a cell it covers and stores its mass', quiet(() => {
+    const sandbox = createSandbox(['player1'], 'experimental');
+    const mother = [...sandbox.game.query('mothercell')].sort((a, b) => a.eid - b.eid)[0];
+    const { x, y } = mother.get(modu.Transform2D);
+    moveTo(cellsOf(sandbox, 'player1')[0], x, y);
+
+    step(sandbox);
+    if (cellsOf(sandbox, 'player1').length !== 0) {
+        log('    Expected the mothercell to eat the cell');
+        return false;
     }
-
-    const hash1 = tw1.world.getStateHash();
-    const hash2 = tw2.world.getStateHash();
-
-    if (hash1 !== hash2) {
-        console.log(`    Hash mismatch: ${hash1} vs ${hash2}`);
+    // The same frame already gives the first pellets of it back as food
+    const stored = getMass(mother) - MOTHERCELL_MASS;
+    return near(stored, INITIAL_MASS - MOTHERCELL_DIGEST_PELLETS * FOOD_MASS);
+}));
+
+console.log('\nTest 5: Mass Cap');
+
+// Cells this large decay a little every frame in FFA, hence the tolerance
+test('A cell past MAX_MASS splits in two', quiet(() => {
+    const sandbox = createSandbox(['player1']);
+    const [cell] = cellsOf(sandbox, 'player1');
+    setMass(cell, MAX_MASS + 40);
+
+    step(sandbox);
+    const cells = cellsOf(sandbox, 'player1');
+    if (cells.length !== 2) {
+        log(`    Expected the cell to split, found ${cells.length} cells`);
+        return false;
     }
-
-    return hash1 === hash2;
-});
-
-// Test 5: Collision determinism
-console.log('\nTest 5: Collisions');
-
-test('Food eating is deterministic', () => {
-    resetClientIds();
-    const tw1 = createTestWorld(12345);
-    const tw2 = createTestWorld(12345);
-
-    // Spawn cell and food at same position
-    const cell1 = spawnCell(tw1, 'player1', 100, 100);
-    resetClientIds();
-    const cell2 = spawnCell(tw2, 'player1', 100, 100);
-
-    // Spawn food nearby
-    tw1.world.spawn('food', { x: 110, y: 100, color: tw1.world.internString('color', '#ff0000') });
-    tw2.world.spawn('food', { x: 110, y: 100, color: tw2.world.internString('color', '#ff0000') });
-
-    const clientId = internClientId('player1');
-
-    // Move towards food
-    for (let i = 0; i < 30; i++) {
-        tw1.world.setInput(clientId, { target: { x: 200, y: 100 } });
-        tw2.world.setInput(clientId, { target: { x: 200, y: 100 } });
-        stepWorld(tw1);
-        stepWorld(tw2);
+    return cells.every(c => getMass(c) <= MAX_MASS) && near(getTotalMass(cells), MAX_MASS + 40, 1);
+}));
+
+// Two of the player's cells, ready to merge, with `mass` each
+function mergeCandidates(mass: number): HeadlessRoom {
+    const sandbox = createSandbox(['player1']);
+    const [cell] = cellsOf(sandbox, 'player1');
+    const t = cell.get(modu.Transform2D);
+    const target = { x: t.x + 500, y: t.y };
+    step(sandbox, 1, () => ({ target, split: true }));
+
+    for (const piece of cellsOf(sandbox, 'player1')) {
+        setMass(piece, mass);
+        moveTo(piece, 3000, 3000);
+        piece.get(MergeCooldown).frame = 0;
     }
+    return sandbox;
+}
 
-    return tw1.world.getStateHash() === tw2.world.getStateHash();
-});
-
-test('Cell eating is deterministic', () => {
-    resetClientIds();
-    seedRandom(12345);
-
-    const p1_id = internClientId('player1');
-    const p2_id = internClientId('player2');
-
-    const tw1 = createTestWorld(12345);
-
-    // Big cell (player1) and small cell (player2) in tw1
-    const big1 = tw1.world.spawn('cell', {
-        x: 100, y: 100,
-        clientId: p1_id,
-        color: tw1.world.internString('color', '#ff0000')
-    });
-    tw1.world.spawn('cell', {
-        x: 150, y: 100,
-        clientId: p2_id,
-        color: tw1.world.internString('color', '#00ff00')
+test('Cells merge once their cooldown is over', quiet(() => {
+    const sandbox = mergeCandidates(50);
+    step(sandbox);
+    const cells = cellsOf(sandbox, 'player1');
+    return cells.length === 1 && near(getMass(cells[0]), 100);
+}));
+
+test('Cells don\'t merge past MAX_MASS', quiet(() => {
+    const sandbox = mergeCandidates(MAX_MASS / 2 + 10);
+    step(sandbox);
+    return cellsOf(sandbox, 'player1').length === 2;
+}));
+
+console.log('\nTest 6: Replays');
+
+// Record scriptedRun() from partway in, with a join and a leave after the
+// recording starts and enough frames for a couple of seek points
+function recordReplay(): ReplayFile {
+    const script = scriptedRun({
+        events: [
+            ...scriptedRun().events!,
+            { frame: 180, type: 'connect', clientId: 'player3', joinData: { nickname: 'Three' } },
+            { frame: 400, type: 'disconnect', clientId: 'player2' },
+        ],
     });
-
-    // Make big1 bigger
-    const entity1 = tw1.world.getEntity(big1);
-    if (entity1) {
-        entity1.get(Sprite).radius = 50;
-        entity1.get(Body2D).radius = 50;
+    let recorder: ReplayRecorder | null = null;
+    const room = createHeadlessRoom('ffa', SEED, 2, frame => recorder?.onFrame(frame));
+    recorder = createReplayRecorder(room.game, getRoomName('ffa', 2));
+
+    for (let frame = 0; frame < 800; frame++) {
+        if (frame === 60) recorder.start();
+        const events = script.events!.filter(e => e.frame === frame);
+        for (const e of events) recorder.recordEvent(e.type, e.clientId, e.joinData);
+        stepRoom(room, events, script.inputs!);
     }
+    return recorder.finish()!;
+}
 
-    // Now create tw2 with same setup
-    resetClientIds();
-    internClientId('player1');
-    internClientId('player2');
-    seedRandom(12345);
-
-    const tw2 = createTestWorld(12345);
-
-    const big2 = tw2.world.spawn('cell', {
-        x: 100, y: 100,
-        clientId: p1_id,
-        color: tw2.world.internString('color', '#ff0000')
-    });
-    tw2.world.spawn('cell', {
-        x: 150, y: 100,
-        clientId: p2_id,
-        color: tw2.world.internString('color', '#00ff00')
-    });
-
-    const entity2 = tw2.world.getEntity(big2);
-    if (entity2) {
-        entity2.get(Sprite).radius = 50;
-        entity2.get(Body2D).radius = 50;
+test('A recorded replay verifies frame for frame', quiet(() => {
+    const replay = recordReplay();
+    const { frames, mismatchFrame } = verifyReplay(replay);
+    if (mismatchFrame !== null) log(`    Replay diverges at frame ${mismatchFrame}`);
+    return frames === 740 && mismatchFrame === null;
+}));
+
+test('Seeking back past a seek point and forward again matches', quiet(() => {
+    const replay = recordReplay();
+    let player: ReplayPlayer | null = null;
+    const { game, mode } = createHeadlessGame(replay.room, () => { player?.onFrame(); });
+    player = createReplayPlayer(game, mode, replay);
+
+    player.seek(player.endFrame);
+    const endHash = game.world.getStateHash();
+    player.seek(replay.start.frame + 250);
+    const rewound = player.frame === replay.start.frame + 250;
+    player.seek(player.endFrame);
+
+    return rewound && player.mismatchFrame === null && game.world.getStateHash() === endHash;
+}));
+
+console.log('\nTest 7: Ejecting');
+
+test('Ejecting moves EJECT_MASS into a pellet its owner can\'t take straight back', quiet(() => {
+    const sandbox = createSandbox(['player1']);
+    const [cell] = cellsOf(sandbox, 'player1');
+    setMass(cell, 50);
+    moveTo(cell, 3000, 3000);
+
+    step(sandbox, 1, () => ({ target: { x: 3500, y: 3000 }, eject: true }));
+    const pellets = [...sandbox.game.query('ejected')];
+    if (pellets.length !== 1) {
+        log(`    Expected 1 pellet, found ${pellets.length}`);
+        return false;
     }
-
-    // Move big cell towards small
-    for (let i = 0; i < 60; i++) {
-        tw1.world.setInput(p1_id, { target: { x: 200, y: 100 } });
-        tw2.world.setInput(p1_id, { target: { x: 200, y: 100 } });
-        stepWorld(tw1);
-        stepWorld(tw2);
+    const [pellet] = pellets;
+    if (!near(getMass(pellet), EJECT_MASS) || !near(getMass(cell), 50 - EJECT_MASS)) return false;
+
+    // Parked on its owner inside the grace period, it stays a pellet
+    const park = () => {
+        const { x, y } = cell.get(modu.Transform2D);
+        pellet.setVelocity(0, 0);
+        moveTo(pellet, x, y);
+    };
+    park();
+    step(sandbox);
+    if (pellet.destroyed) {
+        log('    Owner took its pellet back during the grace period');
+        return false;
     }
 
-    return tw1.world.getStateHash() === tw2.world.getStateHash();
-});
-
-// Test 6: Multi-client determinism
-console.log('\nTest 6: Multi-Client');
-
-test('Two clients moving simultaneously is deterministic', () => {
-    resetClientIds();
-    const tw1 = createTestWorld(12345);
-    const tw2 = createTestWorld(12345);
-
-    const p1 = internClientId('player1');
-    const p2 = internClientId('player2');
-
-    spawnCell(tw1, 'player1', 100, 100);
-    spawnCell(tw1, 'player2', 500, 500);
-    resetClientIds();
-    internClientId('player1'); // Re-intern to get same IDs
-    internClientId('player2');
-    spawnCell(tw2, 'player1', 100, 100);
-    spawnCell(tw2, 'player2', 500, 500);
-
-    for (let i = 0; i < 120; i++) {
-        // Both players move towards center
-        tw1.world.setInput(p1, { target: { x: 300, y: 300 } });
-        tw1.world.setInput(p2, { target: { x: 300, y: 300 } });
-        tw2.world.setInput(p1, { target: { x: 300, y: 300 } });
-        tw2.world.setInput(p2, { target: { x: 300, y: 300 } });
-
-        stepWorld(tw1);
-        stepWorld(tw2);
+    step(sandbox, EJECT_OWNER_GRACE_FRAMES);
+    park();
+    step(sandbox);
+    return pellet.destroyed && near(getMass(cell), 50);
+}));
+
+console.log('\nTest 8: Viruses');
+
+// Below the decay threshold even with the virus added, so mass is exact
+test('A virus pop keeps all the mass in at most MAX_CELLS_PER_PLAYER cells', quiet(() => {
+    const sandbox = createSandbox(['player1']);
+    const [cell] = cellsOf(sandbox, 'player1');
+    setMass(cell, 60);
+    moveTo(cell, 3000, 3000);
+    const virus = spawnVirus(sandbox.game, 3000, 3000);
+
+    step(sandbox, 2);
+    const cells = cellsOf(sandbox, 'player1');
+    if (!virus.destroyed) {
+        log('    Expected the virus to pop the cell');
+        return false;
     }
-
-    return tw1.world.getStateHash() === tw2.world.getStateHash();
-});
-
-test('Input order affects result deterministically', () => {
-    resetClientIds();
-    const tw1 = createTestWorld(12345);
-    const tw2 = createTestWorld(12345);
-
-    spawnCell(tw1, 'player1', 100, 100);
-    resetClientIds();
-    spawnCell(tw2, 'player1', 100, 100);
-
-    const clientId = internClientId('player1');
-
-    // Different input sequences
-    const inputs = [
-        { target: { x: 200, y: 100 } },
-        { target: { x: 200, y: 200 } },
-        { target: { x: 100, y: 200 } },
-        { target: { x: 100, y: 100 } },
-    ];
-
-    for (const input of inputs) {
-        for (let i = 0; i < 30; i++) {
-            tw1.world.setInput(clientId, input);
-            tw2.world.setInput(clientId, input);
-            stepWorld(tw1);
-            stepWorld(tw2);
+    return cells.length === MAX_CELLS_PER_PLAYER && near(getTotalMass(cells), 60 + VIRUS_MASS);
+}));
+
+// Viruses also spawn at random, so only count the ones around the fed virus
+test('The VIRUS_FEED_COUNT-th pellet a virus swallows launches a copy', quiet(() => {
+    const sandbox = createSandbox([]);
+    spawnVirus(sandbox.game, 3000, 3000);
+    const virusesNearby = () => [...sandbox.game.query('virus')].filter(virus => {
+        const t = virus.get(modu.Transform2D);
+        return Math.abs(t.x - 3000) < 500 && Math.abs(t.y - 3000) < 500;
+    }).length;
+
+    for (let i = 1; i <= VIRUS_FEED_COUNT; i++) {
+        sandbox.game.spawn('ejected', { x: 3000, y: 3000, color: 0 });
+        step(sandbox);
+        const viruses = virusesNearby();
+        if (viruses !== (i < VIRUS_FEED_COUNT ? 1 : 2)) {
+            log(`    ${viruses} viruses after ${i} pellets`);
+            return false;
         }
     }
-
-    return tw1.world.getStateHash() === tw2.world.getStateHash();
-});
-
-// Test 7: RNG state save/restore
-console.log('\nTest 7: RNG Save/Restore');
-
-test('RNG state can be saved and restored', () => {
-    seedRandom(12345);
-
-    // Generate some random numbers
-    const val1 = dRandom();
-    const val2 = dRandom();
-
-    // Save state
-    const savedState = saveRandomState();
-
-    // Generate more
-    const val3 = dRandom();
-    const val4 = dRandom();
-
-    // Restore and regenerate
-    loadRandomState(savedState);
-    const val3_restored = dRandom();
-    const val4_restored = dRandom();
-
-    return val3 === val3_restored && val4 === val4_restored;
-});
-
-// Test 8: Complex scenario
-console.log('\nTest 8: Complex Scenario');
-
-test('Full game scenario is deterministic', () => {
-    resetClientIds();
-    const tw1 = createTestWorld(12345);
-
-    // Spawn initial food (before resetting for tw2)
-    for (let i = 0; i < FOOD_COUNT; i++) {
-        spawnFood(tw1);
+    return true;
+}));
+
+console.log('\nTest 9: Teams');
+
+test('Teammates don\'t eat each other, but enemies do', quiet(() => {
+    // Auto-balancing fills every team once, then puts player4 with player1
+    const sandbox = createSandbox(['player1', 'player2', 'player3', 'player4'], 'teams');
+    const [eater] = cellsOf(sandbox, 'player1');
+    const [enemy] = cellsOf(sandbox, 'player2');
+    const [mate] = cellsOf(sandbox, 'player4');
+    if (eater.get(Team).id !== mate.get(Team).id || eater.get(Team).id === enemy.get(Team).id) {
+        log('    Unexpected team assignment');
+        return false;
+    }
+    setMass(eater, 50);
+    moveTo(eater, 3000, 3000);
+    moveTo(mate, 3000, 3000);
+    moveTo(enemy, 3000, 3000);
+
+    step(sandbox);
+    return cellsOf(sandbox, 'player4').length === 1 && cellsOf(sandbox, 'player2').length === 0;
+}));
+
+console.log('\nTest 10: Respawning');
+
+test('An eliminated player comes back on the respawn input, and only then', quiet(() => {
+    const sandbox = createSandbox(['player1', 'player2']);
+    const [eater] = cellsOf(sandbox, 'player1');
+    setMass(eater, 50);
+    moveTo(eater, 3000, 3000);
+    moveTo(cellsOf(sandbox, 'player2')[0], 3000, 3000);
+    step(sandbox);
+
+    // Staying down without the input
+    step(sandbox, 30);
+    if (cellsOf(sandbox, 'player2').length !== 0) {
+        log('    player2 respawned without asking');
+        return false;
     }
 
-    // Spawn two players
-    spawnCell(tw1, 'player1');
-    spawnCell(tw1, 'player2');
+    // Everyone asks; only the eliminated player gets a new cell
+    step(sandbox, 1, () => ({ respawn: true }));
+    return cellsOf(sandbox, 'player2').length === 1 && cellsOf(sandbox, 'player1').length === 1;
+}));
 
-    // Now create tw2 with same seed and operations
-    resetClientIds();
-    const tw2 = createTestWorld(12345);
+console.log('\nTest 11: Spawning');
 
-    for (let i = 0; i < FOOD_COUNT; i++) {
-        spawnFood(tw2);
-    }
+// Where `clientId` spawns on joining `sandbox` now
+function joinAt(sandbox: HeadlessRoom, clientId: string): { x: number; y: number } {
+    stepRoom(sandbox, [{ frame: sandbox.game.world.frame, type: 'connect', clientId }], () => null);
+    const { x, y } = cellsOf(sandbox, clientId)[0].get(modu.Transform2D);
+    return { x, y };
+}
 
-    spawnCell(tw2, 'player1');
-    spawnCell(tw2, 'player2');
-
-    const p1 = internClientId('player1');
-    const p2 = internClientId('player2');
-
-    // Simulate 5 seconds of gameplay
-    for (let frame = 0; frame < 300; frame++) {
-        // Varying inputs based on frame
-        const angle1 = (frame * 0.05);
-        const angle2 = (frame * 0.03 + 1);
-
-        const input1 = {
-            target: {
-                x: 3000 + Math.cos(angle1) * 1000,
-                y: 3000 + Math.sin(angle1) * 1000
-            }
-        };
-        const input2 = {
-            target: {
-                x: 3000 + Math.cos(angle2) * 800,
-                y: 3000 + Math.sin(angle2) * 800
-            }
-        };
-
-        tw1.world.setInput(p1, input1);
-        tw1.world.setInput(p2, input2);
-        tw2.world.setInput(p1, input1);
-        tw2.world.setInput(p2, input2);
-
-        stepWorld(tw1);
-        stepWorld(tw2);
-
-        // Check hash every 60 frames
-        if (frame % 60 === 0) {
-            const hash1 = tw1.world.getStateHash();
-            const hash2 = tw2.world.getStateHash();
-            if (hash1 !== hash2) {
-                console.log(`    Desync at frame ${frame}: ${hash1} vs ${hash2}`);
-                return false;
-            }
-        }
+test('A player doesn\'t spawn next to a cell big enough to eat them', quiet(() => {
+    const open = joinAt(createSandbox(['player1']), 'player2');
+
+    // Park a large enemy on the spot player2 would otherwise take
+    const sandbox = createSandbox(['player1']);
+    const [threat] = cellsOf(sandbox, 'player1');
+    setMass(threat, 300);
+    moveTo(threat, open.x, open.y);
+    const spawn = joinAt(sandbox, 'player2');
+
+    const t = threat.get(modu.Transform2D);
+    const distance = Math.sqrt((spawn.x - t.x) ** 2 + (spawn.y - t.y) ** 2);
+    return distance >= threat.get(modu.Sprite).radius + SPAWN_DANGER_DISTANCE - 1;
+}));
+
+test('A respawned cell can\'t be eaten until its protection runs out', quiet(() => {
+    const sandbox = createSandbox(['player1', 'player2']);
+    const [eater] = cellsOf(sandbox, 'player1');
+    setMass(eater, 50);
+    const pounce = () => {
+        const { x, y } = cellsOf(sandbox, 'player2')[0].get(modu.Transform2D);
+        moveTo(eater, x, y);
+        step(sandbox);
+    };
+    pounce();
+    step(sandbox, 1, (_, clientId) => clientId === 'player2' ? { respawn: true } : null);
+
+    pounce();
+    if (cellsOf(sandbox, 'player2').length !== 1) {
+        log('    Protected cell was eaten');
+        return false;
     }
-
-    return tw1.world.getStateHash() === tw2.world.getStateHash();
-});
+    step(sandbox, SPAWN_PROTECTION_FRAMES);
+    pounce();
+    return cellsOf(sandbox, 'player2').length === 0;
+}));
+
+console.log('\nTest 12: Bots');
+
+test('Bots leave one by one as humans join, and come back as they leave', quiet(() => {
+    const room = createHeadlessRoom('ffa', SEED, 3);
+    const bots = () => getClientRecords(room.game)
+        .filter(record => record.get(ClientInfo).bot)
+        .map(record => room.game.getClientIdString(record.get(ClientInfo).clientId))
+        .sort()
+        .join(',');
+    const after = (type: HeadlessEvent['type'], clientId: string) => {
+        stepRoom(room, [{ frame: room.game.world.frame, type, clientId }], () => null);
+        return bots();
+    };
+
+    // The highest-numbered bot is always the first to go
+    stepRoom(room, [], () => null);
+    return bots() === 'bot-1,bot-2,bot-3' &&
+        after('connect', 'player1') === 'bot-1,bot-2' &&
+        after('connect', 'player2') === 'bot-1' &&
+        after('disconnect', 'player1') === 'bot-1,bot-2';
+}));
 
 // ============================================
 // Summary
@@ -0,0 +1,287 @@
+/**
+ * Cell Eater Fuzz Tests
+ *
+ * Generates random sequences of joins, leaves, steering and splits, runs
+ * each through the shipped simulation three times (two fresh worlds and
+ * one that is snapshotted halfway and resumed in a new world) and checks
+ * that every frame hashes the same and that the world stays valid.
+ * A failing case is shrunk to a minimal reproduction before it's printed.
+ *
+ *   FUZZ_CASES=200 npm run test:fuzz     # More cases
+ *   FUZZ_SEED=1234 npm run test:fuzz     # Replay one case by its seed
+ */
+
+import * as modu from 'modu-engine';
+import { HeadlessEvent, HeadlessRoom, PlayerInput } from '../src/types';
+import { WORLD_WIDTH, WORLD_HEIGHT, MAX_MASS, MAX_CELLS_PER_PLAYER } from '../src/constants';
+import { getPlayerCellsGrouped, getMass } from '../src/systems';
+import { getRoomName } from '../src/modes';
+import { createHeadlessGame, createHeadlessRoom, stepRoom, withDeterministicMath, withoutLogs } from '../src/headless';
+
+const CASES = Number(process.env.FUZZ_CASES) || 25;
+const MODES = ['ffa', 'teams', 'experimental', 'royale', 'timed'];
+const CLIENTS = ['p1', 'p2', 'p3', 'p4'];
+const MAX_ACTIONS = 40;
+const MAX_RUN_FRAMES = 60;
+const EPSILON = 1e-6;                   // Float slack for mass and position checks
+
+// ============================================
+// Case generation
+// ============================================
+
+type Action =
+    | { type: 'connect'; clientId: string }
+    | { type: 'disconnect'; clientId: string }
+    | { type: 'input'; clientId: string; x: number; y: number; split: boolean }
+    | { type: 'run'; frames: number };
+
+interface FuzzCase {
+    seed: number;
+    mode: string;
+    bots: number;
+    actions: Action[];
+}
+
+// Test-side PRNG, kept apart from the engine's so generating a case never
+// disturbs the simulation
+function mulberry32(seed: number): () => number {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6d2b79f5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function generateCase(seed: number): FuzzCase {
+    const rand = mulberry32(seed);
+    const pick = <T>(items: T[]) => items[Math.floor(rand() * items.length)];
+    const actions: Action[] = [];
+    const count = 5 + Math.floor(rand() * (MAX_ACTIONS - 5));
+
+    for (let i = 0; i < count; i++) {
+        const roll = rand();
+        const clientId = pick(CLIENTS);
+        if (roll < 0.15) {
+            actions.push({ type: 'connect', clientId });
+        } else if (roll < 0.22) {
+            actions.push({ type: 'disconnect', clientId });
+        } else if (roll < 0.7) {
+            actions.push({
+                type: 'input',
+                clientId,
+                x: Math.floor(rand() * WORLD_WIDTH),
+                y: Math.floor(rand() * WORLD_HEIGHT),
+                split: rand() < 0.25,
+            });
+        } else {
+            actions.push({ type: 'run', frames: 1 + Math.floor(rand() * MAX_RUN_FRAMES) });
+        }
+    }
+
+    return { seed, mode: pick(MODES), bots: rand() < 0.3 ? 1 + Math.floor(rand() * 3) : 0, actions };
+}
+
+// ============================================
+// Running a case
+// ============================================
+
+interface Script {
+    frames: number;
+    events: HeadlessEvent[];
+    inputs: Map<string, [number, PlayerInput][]>;
+}
+
+// Turn actions into frame-stamped events and input changes. Joins of
+// connected clients and leaves of absent ones are dropped, so any subset
+// of a case's actions (as produced by shrinking) is still a valid script.
+function buildScript(actions: Action[]): Script {
+    const connected = new Set<string>();
+    const events: HeadlessEvent[] = [];
+    const inputs = new Map<string, [number, PlayerInput][]>();
+    let frame = 0;
+
+    for (const action of actions) {
+        if (action.type === 'run') {
+            frame += action.frames;
+        } else if (action.type === 'connect') {
+            if (connected.has(action.clientId)) continue;
+            connected.add(action.clientId);
+            events.push({ frame, type: 'connect', clientId: action.clientId, joinData: { nickname: action.clientId } });
+        } else if (action.type === 'disconnect') {
+            if (!connected.delete(action.clientId)) continue;
+            events.push({ frame, type: 'disconnect', clientId: action.clientId });
+        } else {
+            const changes = inputs.get(action.clientId) || [];
+            changes.push([frame, { target: { x: action.x, y: action.y }, split: action.split }]);
+            inputs.set(action.clientId, changes);
+        }
+    }
+
+    return { frames: frame, events, inputs };
+}
+
+// Input in effect for `clientId` at `frame`
+function inputAt(script: Script, frame: number, clientId: string): PlayerInput | null {
+    let input: PlayerInput | null = null;
+    for (const [changeFrame, change] of script.inputs.get(clientId) || []) {
+        if (changeFrame > frame) break;
+        // A split press lasts one frame
+        input = changeFrame === frame ? change : { ...change, split: false };
+    }
+    return input;
+}
+
+// Problems with the world as it stands, empty when it's valid
+function checkInvariants(game: modu.Game): string[] {
+    const problems: string[] = [];
+    for (const [clientId, cells] of getPlayerCellsGrouped(game)) {
+        const name = game.getClientIdString(clientId) || String(clientId);
+        if (cells.length > MAX_CELLS_PER_PLAYER) {
+            problems.push(`${name} has ${cells.length} cells (max ${MAX_CELLS_PER_PLAYER})`);
+        }
+        // A cell only stays above MAX_MASS once every one of its siblings is
+        // full too, with nowhere left to put the excess
+        const allFull = cells.every(cell => getMass(cell) >= MAX_MASS - EPSILON);
+        for (const cell of cells) {
+            const mass = getMass(cell);
+            const { x, y } = cell.get(modu.Transform2D);
+            const r = cell.get(modu.Sprite).radius;
+            if (!allFull && mass > MAX_MASS + EPSILON) {
+                problems.push(`${name} cell ${cell.eid} has mass ${mass} (max ${MAX_MASS}) with room in its siblings`);
+            }
+            if (!(x >= r - EPSILON && x <= WORLD_WIDTH - r + EPSILON && y >= r - EPSILON && y <= WORLD_HEIGHT - r + EPSILON)) {
+                problems.push(`${name} cell ${cell.eid} (radius ${r}) pokes out of the world at (${x}, ${y})`);
+            }
+        }
+    }
+    return problems;
+}
+
+// Restore a world's snapshot (and RNG stream) into a freshly built one
+function resumeWorld(fuzzCase: FuzzCase, from: HeadlessRoom): HeadlessRoom {
+    const { game, mode } = createHeadlessGame(getRoomName(fuzzCase.mode, fuzzCase.bots));
+    game.world.loadSnapshot(from.game.world.getSnapshot());
+    return { game, mode, connected: [...from.connected], random: from.random };
+}
+
+function step(world: HeadlessRoom, script: Script): void {
+    stepRoom(world, script.events, (frame, clientId) => inputAt(script, frame, clientId));
+}
+
+// The first problem found running `fuzzCase`, or null if it passes
+function runCase(fuzzCase: FuzzCase): string | null {
+    const script = buildScript(fuzzCase.actions);
+    const resumeAt = Math.floor(script.frames / 2);
+
+    return withoutLogs(() => withDeterministicMath(() => {
+        const a = createHeadlessRoom(fuzzCase.mode, fuzzCase.seed, fuzzCase.bots);
+        const b = createHeadlessRoom(fuzzCase.mode, fuzzCase.seed, fuzzCase.bots);
+        let c: HeadlessRoom | null = null;
+
+        for (let frame = 0; frame < script.frames; frame++) {
+            if (frame === resumeAt) c = resumeWorld(fuzzCase, a);
+
+            step(a, script);
+            step(b, script);
+            if (c) step(c, script);
+
+            const hash = a.game.world.getStateHash();
+            if (b.game.world.getStateHash() !== hash) {
+                return `frame ${frame + 1}: independent worlds diverged`;
+            }
+            if (c && c.game.world.getStateHash() !== hash) {
+                return `frame ${frame + 1}: world resumed from frame ${resumeAt} snapshot diverged`;
+            }
+            const problems = checkInvariants(a.game);
+            if (problems.length > 0) return `frame ${frame + 1}: ${problems[0]}`;
+        }
+        return null;
+    }));
+}
+
+// ============================================
+// Shrinking
+// ============================================
+
+// Smaller variants of a case, most aggressive first
+function* shrinkCandidates(fuzzCase: FuzzCase): Generator<FuzzCase> {
+    const { actions } = fuzzCase;
+
+    // Drop chunks of actions, halving the chunk size down to one
+    for (let size = Math.floor(actions.length / 2); size >= 1; size = Math.floor(size / 2)) {
+        for (let start = 0; start + size <= actions.length; start += size) {
+            yield { ...fuzzCase, actions: [...actions.slice(0, start), ...actions.slice(start + size)] };
+        }
+    }
+
+    if (fuzzCase.bots > 0) yield { ...fuzzCase, bots: 0 };
+
+    // Shorten runs and simplify inputs
+    for (let i = 0; i < actions.length; i++) {
+        const action = actions[i];
+        const replace = (next: Action) => ({ ...fuzzCase, actions: actions.map((a, j) => j === i ? next : a) });
+        if (action.type === 'run' && action.frames > 1) {
+            yield replace({ ...action, frames: Math.floor(action.frames / 2) });
+        } else if (action.type === 'input' && action.split) {
+            yield replace({ ...action, split: false });
+        }
+    }
+}
+
+// Greedily take any smaller variant that still fails until none does
+function shrink(fuzzCase: FuzzCase, failure: string): { fuzzCase: FuzzCase; failure: string } {
+    let improved = true;
+    while (improved) {
+        improved = false;
+        for (const candidate of shrinkCandidates(fuzzCase)) {
+            const result = runCase(candidate);
+            if (result) {
+                fuzzCase = candidate;
+                failure = result;
+                improved = true;
+                break;
+            }
+        }
+    }
+    return { fuzzCase, failure };
+}
+
+// ============================================
+// Run
+// ============================================
+
+const firstSeed = Number(process.env.FUZZ_SEED) || 1;
+const caseCount = process.env.FUZZ_SEED ? 1 : CASES;
+let failures = 0;
+
+console.log('=== Cell Eater Fuzz Tests ===\n');
+
+for (let i = 0; i < caseCount; i++) {
+    const fuzzCase = generateCase(firstSeed + i);
+    const failure = runCase(fuzzCase);
+    if (!failure) {
+        console.log(`  ✓ seed ${fuzzCase.seed} (${fuzzCase.mode}, ${buildScript(fuzzCase.actions).frames} frames)`);
+        continue;
+    }
+
+    failures++;
+    console.log(`  ✗ seed ${fuzzCase.seed} (${fuzzCase.mode}): ${failure}`);
+    const minimal = shrink(fuzzCase, failure);
+    console.log(`    Minimal reproduction (${minimal.failure}):`);
+    console.log(`    ${JSON.stringify(minimal.fuzzCase)}`);
+}
+
+console.log('\n=== Results ===');
+console.log(`Passed: ${caseCount - failures}`);
+console.log(`Failed: ${failures}`);
+
+if (failures > 0) {
+    console.log('\nFUZZ FAILURES FOUND!');
+    process.exit(1);
+} else {
+    console.log('\nAll fuzz cases passed!');
+    process.exit(0);
+}
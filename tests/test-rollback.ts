@@ -0,0 +1,263 @@
+/**
+ * Cell Eater Rollback Tests
+ *
+ * Simulates a client that receives another player's inputs several frames
+ * late. It predicts the missing input (the last one it saw), and when the
+ * real input arrives and differs it rolls back to the snapshot saved for
+ * that frame - engine state and RNG state - and resimulates with the
+ * corrected input. Once every input has arrived, each frame must hash the
+ * same as on a client that had every input on time.
+ */
+
+import { HeadlessEvent, HeadlessRoom, PlayerInput } from '../src/types';
+import { MERGE_DELAY_FRAMES } from '../src/constants';
+import { getPlayerCells } from '../src/systems';
+import { createHeadlessRoom, stepRoom, withDeterministicMath, withoutLogs } from '../src/headless';
+
+// ============================================
+// Test Harness
+// ============================================
+
+const SEED = 12345;
+const LOCAL = 'player1';
+const REMOTE = 'player2';
+
+// Tests run with console.log silenced; diagnostics go through this
+const log = console.log;
+
+const EVENTS: HeadlessEvent[] = [
+    { frame: 0, type: 'connect', clientId: LOCAL, joinData: { nickname: 'Local' } },
+    { frame: 0, type: 'connect', clientId: REMOTE, joinData: { nickname: 'Remote' } },
+];
+
+type InputScript = (frame: number, clientId: string) => PlayerInput | null;
+
+interface SavedState {
+    snapshot: unknown;
+    random: unknown;
+    connected: string[];
+}
+
+interface SimClient extends HeadlessRoom {
+    history: Map<number, SavedState>;   // State before each frame ran
+    hashes: number[];                   // Hash after each frame, overwritten by resimulation
+}
+
+function createClient(): SimClient {
+    return { ...createHeadlessRoom('ffa', SEED), history: new Map(), hashes: [] };
+}
+
+// Run the client's next frame, saving the state it starts from
+function advance(client: SimClient, getInput: InputScript): void {
+    const frame = client.game.world.frame;
+    client.history.set(frame, {
+        snapshot: client.game.world.getSnapshot(),
+        random: client.random,
+        connected: [...client.connected],
+    });
+    stepRoom(client, EVENTS, getInput);
+    client.hashes[frame] = client.game.world.getStateHash();
+}
+
+function rollback(client: SimClient, frame: number, restoreRandom = true): void {
+    const saved = client.history.get(frame)!;
+    client.game.world.loadSnapshot(saved.snapshot);
+    if (restoreRandom) client.random = saved.random;
+    client.connected = [...saved.connected];
+}
+
+const sameInput = (a: PlayerInput | null, b: PlayerInput | null) => JSON.stringify(a) === JSON.stringify(b);
+
+interface RollbackRun {
+    onTime: SimClient;
+    late: SimClient;
+    rollbacks: number;
+    firstMismatch: number | null;       // First frame whose final hashes differ
+    peakRemoteCells: number;            // Most cells REMOTE had at once (on time)
+}
+
+// Run `frames` frames on a client with every input on time and on one
+// that gets REMOTE's input for frame f only when it's about to run
+// frame f + delay
+function runWithLateInputs(frames: number, delay: number, script: InputScript, restoreRandom = true): RollbackRun {
+    return withDeterministicMath(() => {
+        const onTime = createClient();
+        const late = createClient();
+        const received = new Map<number, PlayerInput | null>();
+        const used = new Map<number, PlayerInput | null>();
+        let rollbacks = 0;
+        let peakRemoteCells = 0;
+
+        // Remote input the late client has for `frame`, else the latest it has seen
+        const predict = (frame: number): PlayerInput | null => {
+            for (let f = frame; f >= 0; f--) {
+                if (received.has(f)) {
+                    const input = received.get(f)!;
+                    // Button presses aren't repeated into the future
+                    return f === frame || !input ? input : { ...input, split: false, eject: false };
+                }
+            }
+            return null;
+        };
+        const lateInput: InputScript = (frame, clientId) => {
+            if (clientId !== REMOTE) return script(frame, clientId);
+            const input = predict(frame);
+            used.set(frame, input);
+            return input;
+        };
+
+        // Deliver REMOTE's input for `frame`, rolling back if it was mispredicted
+        const deliver = (frame: number) => {
+            if (frame < 0 || frame >= frames) return;
+            received.set(frame, script(frame, REMOTE));
+            if (sameInput(used.get(frame) ?? null, received.get(frame)!)) return;
+
+            rollbacks++;
+            const resumeFrame = late.game.world.frame;
+            rollback(late, frame, restoreRandom);
+            while (late.game.world.frame < resumeFrame) advance(late, lateInput);
+        };
+
+        for (let frame = 0; frame < frames; frame++) {
+            advance(onTime, script);
+            const remoteCells = getPlayerCells(onTime.game, onTime.game.internClientId(REMOTE)).length;
+            peakRemoteCells = Math.max(peakRemoteCells, remoteCells);
+            deliver(frame - delay);
+            advance(late, lateInput);
+        }
+        for (let frame = frames - delay; frame < frames; frame++) deliver(frame);
+
+        let firstMismatch: number | null = null;
+        for (let frame = 0; frame < frames; frame++) {
+            if (onTime.hashes[frame] !== late.hashes[frame]) {
+                firstMismatch = frame;
+                break;
+            }
+        }
+        return { onTime, late, rollbacks, firstMismatch, peakRemoteCells };
+    });
+}
+
+function checkRun(run: RollbackRun): boolean {
+    if (run.rollbacks === 0) {
+        log('    No input was mispredicted, so nothing was rolled back');
+        return false;
+    }
+    if (run.firstMismatch !== null) {
+        log(`    Desync at frame ${run.firstMismatch} after ${run.rollbacks} rollbacks`);
+        return false;
+    }
+    return true;
+}
+
+// Both players steer towards points on a circle that change every `period` frames
+function circling(period: number, splitFrames: number[] = []): InputScript {
+    return (frame, clientId) => {
+        const step = Math.floor(frame / period);
+        const angle = step * 0.7 + (clientId === LOCAL ? 0 : Math.PI);
+        return {
+            target: { x: 3000 + Math.round(Math.cos(angle) * 800), y: 3000 + Math.round(Math.sin(angle) * 800) },
+            split: clientId === REMOTE && splitFrames.includes(frame),
+        };
+    };
+}
+
+let passed = 0;
+let failed = 0;
+
+function test(name: string, fn: () => boolean) {
+    try {
+        if (fn()) {
+            console.log(`  ✓ ${name}`);
+            passed++;
+        } else {
+            console.log(`  ✗ ${name}`);
+            failed++;
+        }
+    } catch (e) {
+        console.log(`  ✗ ${name} - ${e}`);
+        failed++;
+    }
+}
+
+// ============================================
+// Tests
+// ============================================
+
+const quiet = (fn: () => boolean) => () => withoutLogs(fn);
+
+console.log('=== Cell Eater Rollback Tests ===\n');
+
+console.log('Test 1: Late Steering');
+
+test('Late steering input is corrected by rollback', quiet(() => {
+    return checkRun(runWithLateInputs(240, 6, circling(20)));
+}));
+
+test('Inputs one frame late are corrected by rollback', quiet(() => {
+    return checkRun(runWithLateInputs(120, 1, circling(10)));
+}));
+
+console.log('\nTest 2: Split');
+
+test('A late split is resimulated', quiet(() => {
+    return checkRun(runWithLateInputs(240, 8, circling(30, [40, 41, 120])));
+}));
+
+console.log('\nTest 3: Merge');
+
+// REMOTE splits early, then steers to a single point so its pieces meet as
+// their MergeCooldown runs out; its target keeps changing around the merge
+// frame, so rollbacks land on both sides of it
+test('Rollback across the merge frame matches', quiet(() => {
+    const splitFrame = 20;
+    const mergeFrame = splitFrame + MERGE_DELAY_FRAMES;
+    const script: InputScript = (frame, clientId) => {
+        if (clientId === LOCAL) return circling(40)(frame, clientId);
+        const wobble = frame >= mergeFrame - 20 && frame < mergeFrame + 40 ? (Math.floor(frame / 4) % 3) * 40 : 0;
+        return { target: { x: 2000 + wobble, y: 2000 }, split: frame === splitFrame };
+    };
+
+    const frames = mergeFrame + 120;
+    const run = runWithLateInputs(frames, 5, script);
+    if (!checkRun(run)) return false;
+
+    // Make sure the scenario really split and merged
+    const remote = run.onTime.game.internClientId(REMOTE);
+    const cells = getPlayerCells(run.onTime.game, remote).length;
+    if (run.peakRemoteCells < 2) {
+        log('    Expected the remote player to split');
+        return false;
+    }
+    if (cells !== 1) {
+        log(`    Expected the split pieces to have merged, found ${cells} cells`);
+        return false;
+    }
+    return true;
+}));
+
+console.log('\nTest 4: Harness');
+
+// Sanity check: food spawns draw from the RNG every frame, so a rollback
+// that forgets to restore it must desync
+test('Rollback without restoring the RNG desyncs', quiet(() => {
+    const run = runWithLateInputs(120, 6, circling(20), false);
+    return run.rollbacks > 0 && run.firstMismatch !== null;
+}));
+
+// ============================================
+// Summary
+// ============================================
+
+console.log('\n=== Results ===');
+console.log(`Passed: ${passed}`);
+console.log(`Failed: ${failed}`);
+
+if (failed > 0) {
+    console.log('\nROLLBACK ISSUES FOUND!');
+    console.log('Resimulating with corrected inputs does not reproduce the on-time state.');
+    process.exit(1);
+} else {
+    console.log('\nAll rollback tests passed!');
+    process.exit(0);
+}
@@ -0,0 +1,351 @@
+/**
+ * Cell Eater - Desync Bisector
+ *
+ * Finds the first frame where two runs of the simulation diverge and shows
+ * which entities differ and which system last wrote them.
+ *
+ *   npm run desync -- traces <a.json> <b.json>
+ *   npm run desync -- replay <replay.json> [<engineA> <engineB>]
+ *
+ * `traces` compares two state-hash traces: a JSON array of hashes, or any
+ * object with a `hashes` array (a replay file works) and optional
+ * `start.frame`. It can only report the frame.
+ *
+ * `replay` plays a replay headless. With two engine builds (directories
+ * containing the engine's index.ts) it plays once per build, finds the
+ * first divergent frame, replays up to it again with every system and
+ * collision handler instrumented, and diffs the per-entity component
+ * values. With no builds it checks the current build against the hashes
+ * recorded in the replay.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import * as modu from 'modu-engine';
+import { ReplayFile } from '../src/types';
+import { Mass, Launch, MergeCooldown } from '../src/entities';
+import { verifyReplay } from '../src/replay';
+import { withoutLogs } from '../src/headless';
+
+const ROOT = path.resolve(path.dirname(process.argv[1]), '..');
+const ENGINE_WRITER = 'engine (physics step)';
+
+// Component and collision handler types as the engine takes them
+type Component = Parameters<modu.Entity['get']>[0];
+type CollisionHandler = (a: modu.Entity, b: modu.Entity) => void;
+
+// Fields compared per entity. Anything the hash covers but these miss shows
+// up as a divergent frame with no differing entities.
+const TRACKED: [string, Component, string[]][] = [
+    ['Transform2D', modu.Transform2D, ['x', 'y', 'angle']],
+    ['Sprite', modu.Sprite, ['radius', 'color']],
+    ['Body2D', modu.Body2D, ['vx', 'vy', 'radius']],
+    ['Mass', Mass, ['value']],
+    ['Launch', Launch, ['vx', 'vy']],
+    ['MergeCooldown', MergeCooldown, ['frame']],
+];
+
+type EntityState = Record<string, Record<string, unknown>>;
+
+interface EntityDump {
+    eid: number;
+    clientId: string | null;
+    state: EntityState;
+    writers: Record<string, string>;    // Component -> system that last changed it
+}
+
+interface RunResult {
+    startFrame: number;
+    hashes: number[];
+    entities?: EntityDump[];            // Only when asked to dump a frame
+}
+
+interface Trace {
+    startFrame: number;
+    hashes: number[];
+}
+
+function fail(message: string): never {
+    console.error(message);
+    process.exit(1);
+}
+
+function readJson(file: string): unknown {
+    try {
+        return JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (e) {
+        fail(`Could not read ${file}: ${(e as Error).message}`);
+    }
+}
+
+function readTrace(file: string): Trace {
+    const data = readJson(file);
+    const trace = (Array.isArray(data) ? { hashes: data } : data) as { hashes?: unknown; start?: { frame?: number } } | null;
+    const hashes = trace?.hashes;
+    if (!Array.isArray(hashes)) fail(`${file} has no hash trace`);
+    return { startFrame: trace?.start?.frame ?? 0, hashes };
+}
+
+// First frame both traces cover where the hashes differ, or null
+function firstDivergence(a: Trace, b: Trace): number | null {
+    const from = Math.max(a.startFrame, b.startFrame);
+    const to = Math.min(a.startFrame + a.hashes.length, b.startFrame + b.hashes.length);
+    for (let frame = from; frame < to; frame++) {
+        if (a.hashes[frame - a.startFrame] !== b.hashes[frame - b.startFrame]) return frame;
+    }
+    return null;
+}
+
+// ============================================================================
+// Instrumented run (child process, one per engine build)
+// ============================================================================
+
+function readEntity(entity: modu.Entity): EntityState {
+    const state: EntityState = {};
+    for (const [name, component, fields] of TRACKED) {
+        if (!entity.has(component)) continue;
+        const data = entity.get(component) as Record<string, unknown>;
+        state[name] = {};
+        for (const field of fields) state[name][field] = data[field];
+    }
+    return state;
+}
+
+function captureWorld(game: modu.Game): Map<number, string> {
+    const world = new Map<number, string>();
+    for (const entity of game.getAllEntities()) {
+        if (!entity.destroyed) world.set(entity.eid, JSON.stringify(readEntity(entity)));
+    }
+    return world;
+}
+
+// Where a system or handler was registered, e.g. src/systems.ts:512
+function callerLabel(): string {
+    const lines = (new Error().stack || '').split('\n').slice(1);
+    for (const line of lines) {
+        const match = line.match(/([^\s(]+):(\d+):\d+\)?$/);
+        if (!match || !match[1].includes(`${path.sep}src${path.sep}`)) continue;
+        if (match[1].endsWith('headless.ts')) continue;
+        return `${path.relative(ROOT, match[1].replace(/^file:\/\//, ''))}:${match[2]}`;
+    }
+    return 'unknown';
+}
+
+// Record the last writer of each entity's components between the probe of
+// frame - 1 and the probe of `frame`, then dump every entity at `frame`
+function traceWrites(dumpFrame: number) {
+    const writers = new Map<number, Record<string, string>>();
+    let tracing = false;
+    let last = new Map<number, string>();
+    let game: modu.Game | null = null;
+
+    function attribute(label: string, after: Map<number, string>, eids: Iterable<number>): void {
+        for (const eid of eids) {
+            const before = last.get(eid);
+            const now = after.get(eid);
+            if (before === now || now === undefined) continue;
+            const prev: EntityState = before ? JSON.parse(before) : {};
+            const next: EntityState = JSON.parse(now);
+            const entry = writers.get(eid) || {};
+            for (const name of Object.keys(next)) {
+                if (JSON.stringify(prev[name]) !== JSON.stringify(next[name])) entry[name] = label;
+            }
+            writers.set(eid, entry);
+            last.set(eid, now);
+        }
+    }
+
+    function run(label: string, fn: () => void): void {
+        if (!tracing || !game) return fn();
+        fn();
+        const after = captureWorld(game);
+        attribute(label, after, after.keys());
+    }
+
+    return {
+        instrument(g: modu.Game, physics: modu.Physics2DSystem): void {
+            game = g;
+            const addSystem = g.addSystem.bind(g);
+            g.addSystem = ((fn: () => void, options: Parameters<typeof addSystem>[1]) => {
+                const label = callerLabel();
+                return addSystem(() => run(label, fn), options);
+            }) as typeof g.addSystem;
+
+            const onCollision = physics.onCollision.bind(physics);
+            physics.onCollision = ((a: string, b: string, fn: CollisionHandler) => {
+                const label = `${callerLabel()} (${a}/${b} collision)`;
+                return onCollision(a, b, (entityA: modu.Entity, entityB: modu.Entity) => run(label, () => fn(entityA, entityB)));
+            }) as typeof physics.onCollision;
+        },
+
+        // Replay probe: runs first in every frame
+        onFrame(g: modu.Game, frame: number): EntityDump[] | null {
+            if (frame === dumpFrame - 1) {
+                tracing = true;
+                last = captureWorld(g);
+                return null;
+            }
+            if (frame !== dumpFrame) return null;
+
+            // Whatever changed outside the systems happened in the engine
+            const now = captureWorld(g);
+            attribute(ENGINE_WRITER, now, now.keys());
+            tracing = false;
+
+            const entities: EntityDump[] = [];
+            for (const entity of g.getAllEntities()) {
+                if (entity.destroyed) continue;
+                const clientId = entity.has(modu.Player)
+                    ? g.getClientIdString(entity.get(modu.Player).clientId) || null
+                    : null;
+                entities.push({ eid: entity.eid, clientId, state: readEntity(entity), writers: writers.get(entity.eid) || {} });
+            }
+            return entities.sort((a, b) => a.eid - b.eid);
+        },
+    };
+}
+
+function runReplay(replay: ReplayFile, dumpFrame: number | null): RunResult {
+    const tracer = dumpFrame !== null ? traceWrites(dumpFrame) : null;
+    const hashes: number[] = [];
+    let entities: EntityDump[] | undefined;
+
+    withoutLogs(() => verifyReplay(replay, (game, frame) => {
+        hashes[frame - replay.start.frame] = game.world.getStateHash();
+        entities = tracer?.onFrame(game, frame) || entities;
+    }, tracer?.instrument));
+    return { startFrame: replay.start.frame, hashes, entities };
+}
+
+// ============================================================================
+// Driver
+// ============================================================================
+
+// tsconfig that resolves modu-engine to the given build
+function engineTsconfig(engineDir: string): string {
+    const index = path.resolve(engineDir, 'index.ts');
+    if (!fs.existsSync(index)) fail(`No engine build at ${engineDir} (expected ${index})`);
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'desync-')), 'tsconfig.json');
+    fs.writeFileSync(file, JSON.stringify({
+        extends: path.join(ROOT, 'tsconfig.json'),
+        compilerOptions: {
+            paths: {
+                'modu-engine': [index],
+                'modu-engine/*': [path.join(path.dirname(index), '*')],
+            },
+        },
+    }));
+    return file;
+}
+
+// Run this script's `run` command against an engine build in a fresh process
+function runWithEngine(replayFile: string, engineDir: string, dumpFrame: number | null): RunResult {
+    const tsconfig = engineTsconfig(engineDir);
+    const out = path.join(path.dirname(tsconfig), 'result.json');
+    const args = ['tsx', '--tsconfig', tsconfig, process.argv[1], 'run', replayFile, out];
+    if (dumpFrame !== null) args.push(String(dumpFrame));
+
+    const child = spawnSync('npx', args, { stdio: 'inherit', cwd: ROOT });
+    try {
+        if (child.status !== 0) fail(`Replay failed with engine ${engineDir}`);
+        return readJson(out) as RunResult;
+    } finally {
+        fs.rmSync(path.dirname(tsconfig), { recursive: true, force: true });
+    }
+}
+
+function describe(entity: EntityDump | undefined): string {
+    if (!entity) return '(missing)';
+    const parts = Object.entries(entity.state).map(([name, fields]) => {
+        const writer = entity.writers[name] ? ` <- ${entity.writers[name]}` : '';
+        return `${name} ${JSON.stringify(fields)}${writer}`;
+    });
+    return parts.join('\n      ') || '(no tracked components)';
+}
+
+function printEntityDiff(frame: number, a: EntityDump[], b: EntityDump[]): void {
+    const byEid = (list: EntityDump[]) => new Map(list.map(entity => [entity.eid, entity]));
+    const mapA = byEid(a);
+    const mapB = byEid(b);
+    const eids = [...new Set([...mapA.keys(), ...mapB.keys()])].sort((x, y) => x - y);
+
+    let count = 0;
+    for (const eid of eids) {
+        const entityA = mapA.get(eid);
+        const entityB = mapB.get(eid);
+        if (JSON.stringify(entityA?.state) === JSON.stringify(entityB?.state)) continue;
+        count++;
+        const owner = entityA?.clientId || entityB?.clientId;
+        console.log(`  eid ${eid}${owner ? ` (${owner})` : ''}`);
+        console.log(`    A: ${describe(entityA)}`);
+        console.log(`    B: ${describe(entityB)}`);
+    }
+
+    if (count === 0) {
+        console.log(`  No tracked component differs at frame ${frame}; the divergence is in state the bisector doesn't compare.`);
+    } else {
+        console.log(`${count} entit${count === 1 ? 'y differs' : 'ies differ'}`);
+    }
+}
+
+function bisectReplay(replayFile: string, engineA?: string, engineB?: string): void {
+    const replay = readJson(replayFile) as ReplayFile;
+
+    if (!engineA || !engineB) {
+        const result = runReplay(replay, null);
+        const frame = firstDivergence(readTrace(replayFile), result);
+        if (frame === null) {
+            console.log(`Replay matches the recording (${result.hashes.length} frames)`);
+            return;
+        }
+        console.log(`First divergent frame: ${frame} (recorded vs current build)`);
+        console.log('Pass two engine builds to see which entities differ.');
+        process.exitCode = 1;
+        return;
+    }
+
+    const traceA = runWithEngine(replayFile, engineA, null);
+    const traceB = runWithEngine(replayFile, engineB, null);
+    const frame = firstDivergence(traceA, traceB);
+    if (frame === null) {
+        console.log(`Builds agree on all ${traceA.hashes.length} frames`);
+        return;
+    }
+
+    console.log(`First divergent frame: ${frame}`);
+    if (frame === replay.start.frame) {
+        console.log('The builds already differ when the replay starts, so no system can be blamed.');
+    }
+    const dumpA = runWithEngine(replayFile, engineA, frame);
+    const dumpB = runWithEngine(replayFile, engineB, frame);
+    printEntityDiff(frame, dumpA.entities || [], dumpB.entities || []);
+    process.exitCode = 1;
+}
+
+function main(): void {
+    const [command, ...args] = process.argv.slice(2);
+
+    if (command === 'traces' && args.length === 2) {
+        const frame = firstDivergence(readTrace(args[0]), readTrace(args[1]));
+        if (frame === null) {
+            console.log('Traces agree on every frame they share');
+        } else {
+            console.log(`First divergent frame: ${frame}`);
+            process.exitCode = 1;
+        }
+    } else if (command === 'replay' && (args.length === 1 || args.length === 3)) {
+        bisectReplay(args[0], args[1], args[2]);
+    } else if (command === 'run' && (args.length === 2 || args.length === 3)) {
+        // Internal: play a replay with the engine this process resolved
+        const dumpFrame = args[2] !== undefined ? Number(args[2]) : null;
+        fs.writeFileSync(args[1], JSON.stringify(runReplay(readJson(args[0]) as ReplayFile, dumpFrame)));
+    } else {
+        fail('Usage:\n' +
+            '  desync-bisect traces <a.json> <b.json>\n' +
+            '  desync-bisect replay <replay.json> [<engineA> <engineB>]');
+    }
+}
+
+main();